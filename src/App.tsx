@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Analytics } from '@vercel/analytics/react';
 import {
   ArrowRightLeft,
@@ -9,11 +9,13 @@ import {
   FileCode
 } from 'lucide-react';
 import { ValidationErrors, MermaidViewer, CollapsibleSpec, GuideSection } from './components';
-import type { MultiSpecDocs } from './types';
+import type { SpecFormat } from './components';
+import type { MultiSpecDocs, OpenApiVersion } from './types';
 import type { ValidationResult } from './types';
 import { tokenize } from './parser/mermaidLexer';
 import { parse } from './parser/mermaidParser';
 import { generateOpenApiSpecs } from './generators/openapiGenerator';
+import { generateSwaggerSpecs } from './generators/swaggerExporter';
 import { validateMermaidSyntax, validateOpenApiSpecs } from './validators';
 
 // --- Main Application ---
@@ -32,7 +34,9 @@ export default function App() {
     Gateway-->>User: 200 { "products": [] }`);
 
   const [generatedSpecs, setGeneratedSpecs] = useState<MultiSpecDocs>({});
-  const [outputFormat, setOutputFormat] = useState<'yaml' | 'json'>('yaml');
+  const [outputFormat, setOutputFormat] = useState<SpecFormat>('yaml');
+  const [openapiVersion, setOpenapiVersion] = useState<OpenApiVersion>('3.0.0');
+  const [detectFormats, setDetectFormats] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<'editor' | 'guide'>('editor');
   const [parseError, setParseError] = useState<string | null>(null);
   const [mermaidValidation, setMermaidValidation] = useState<ValidationResult | null>(null);
@@ -66,7 +70,7 @@ export default function App() {
       const ast = parse(tokens);
 
       // Generate OpenAPI specs
-      const specs = generateOpenApiSpecs(ast);
+      const specs = generateOpenApiSpecs(ast, { openapiVersion, detectFormats });
       setGeneratedSpecs(specs);
 
       // Validate generated OpenAPI specs
@@ -83,7 +87,7 @@ export default function App() {
       setParseError(err instanceof Error ? err.message : 'Error parsing diagram');
       setGeneratedSpecs({});
     }
-  }, [mermaidCode]);
+  }, [mermaidCode, openapiVersion, detectFormats]);
 
   // --- Drag Logic ---
   const handleMouseMove = useCallback((e: MouseEvent) => {
@@ -124,6 +128,15 @@ export default function App() {
 
   const serverNames = Object.keys(generatedSpecs);
 
+  // Swagger 2.0 output is converted from the OpenAPI specs, along with its export warnings
+  const swaggerExport = useMemo(
+    () => outputFormat === 'swagger' ? generateSwaggerSpecs(generatedSpecs) : null,
+    [generatedSpecs, outputFormat]
+  );
+  const outputValidation = openapiValidation && swaggerExport
+    ? { ...openapiValidation, warnings: [...openapiValidation.warnings, ...swaggerExport.warnings] }
+    : openapiValidation;
+
   return (
     <div className="h-screen bg-slate-50 text-slate-800 font-sans flex flex-col overflow-hidden">
       <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between shrink-0 z-20">
@@ -215,9 +228,15 @@ API-->>User: 201 Created`}
                   {parseError && <span className="text-xs text-red-400 flex items-center gap-1"><AlertCircle size={10} /> Error</span>}
                 </div>
                 <div className="flex items-center gap-2">
+                  <button onClick={() => setDetectFormats(!detectFormats)} title="Guess string formats (date-time, email, uuid, ...) from examples" className={`px-2 py-1 text-xs rounded ${detectFormats ? 'bg-slate-500 text-white' : 'bg-slate-700 text-slate-400'}`}>Formats</button>
+                  <div className="flex bg-slate-700 rounded p-0.5">
+                    <button onClick={() => setOpenapiVersion('3.0.0')} className={`px-2 py-0.5 text-xs rounded ${openapiVersion === '3.0.0' ? 'bg-slate-500 text-white' : 'text-slate-400'}`}>3.0</button>
+                    <button onClick={() => setOpenapiVersion('3.1.0')} className={`px-2 py-0.5 text-xs rounded ${openapiVersion === '3.1.0' ? 'bg-slate-500 text-white' : 'text-slate-400'}`}>3.1</button>
+                  </div>
                   <div className="flex bg-slate-700 rounded p-0.5">
                     <button onClick={() => setOutputFormat('yaml')} className={`px-2 py-0.5 text-xs rounded ${outputFormat === 'yaml' ? 'bg-slate-500 text-white' : 'text-slate-400'}`}>YAML</button>
                     <button onClick={() => setOutputFormat('json')} className={`px-2 py-0.5 text-xs rounded ${outputFormat === 'json' ? 'bg-slate-500 text-white' : 'text-slate-400'}`}>JSON</button>
+                    <button onClick={() => setOutputFormat('swagger')} className={`px-2 py-0.5 text-xs rounded ${outputFormat === 'swagger' ? 'bg-slate-500 text-white' : 'text-slate-400'}`}>Swagger 2.0</button>
                   </div>
                 </div>
               </div>
@@ -229,7 +248,7 @@ API-->>User: 201 Created`}
                     onClose={() => setMermaidValidation(null)}
                   />
                   <ValidationErrors
-                    validation={openapiValidation}
+                    validation={outputValidation}
                     onClose={() => setOpenapiValidation(null)}
                   />
                 </div>
@@ -243,7 +262,7 @@ API-->>User: 201 Created`}
                          <CollapsibleSpec 
                             key={name} 
                             title={name} 
-                            content={generatedSpecs[name]} 
+                            content={swaggerExport?.specs[name] ?? generatedSpecs[name]} 
                             format={outputFormat} 
                         />
                      ))
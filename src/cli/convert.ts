@@ -0,0 +1,91 @@
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { extractMermaidFences } from '@/parser/markdown';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+import { mergeMultiSpecDocs } from '@/generators/specMerger';
+import { validateMermaidSyntax, validateOpenApiSpecs } from '@/validators';
+import type { GeneratorOptions, MultiSpecDocs, ValidationError } from '@/types';
+
+export interface DiagramConversion {
+  specs: MultiSpecDocs;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+/**
+ * Validates and generates one diagram. Like the editor, no specs are generated
+ * when the diagram itself has syntax errors.
+ */
+function generateDiagram(source: string, options: GeneratorOptions): DiagramConversion {
+  const mermaidResult = validateMermaidSyntax(source);
+  if (!mermaidResult.valid) {
+    return { specs: {}, errors: mermaidResult.errors, warnings: mermaidResult.warnings };
+  }
+
+  return {
+    specs: generateOpenApiSpecs(parse(tokenize(source)), options),
+    errors: [],
+    warnings: mermaidResult.warnings
+  };
+}
+
+/**
+ * Runs the full pipeline on one diagram: Mermaid validation, tokenize, parse,
+ * generate and OpenAPI validation.
+ */
+export function convertDiagram(source: string, options: GeneratorOptions = {}): DiagramConversion {
+  const conversion = generateDiagram(source, options);
+  if (conversion.errors.length > 0) {
+    return conversion;
+  }
+
+  const openapiResult = validateOpenApiSpecs(conversion.specs);
+  return {
+    specs: conversion.specs,
+    errors: openapiResult.errors,
+    warnings: [...conversion.warnings, ...openapiResult.warnings]
+  };
+}
+
+/**
+ * Runs the pipeline on every sequence diagram fence of a Markdown or MDX document
+ * and merges the specs per server. Diagnostic lines refer to the Markdown file.
+ */
+export function convertMarkdown(markdown: string, options: GeneratorOptions = {}): DiagramConversion {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const fenceSpecs: MultiSpecDocs[] = [];
+
+  const fences = extractMermaidFences(markdown);
+  fences.forEach(({ source, lineOffset }) => {
+    const conversion = generateDiagram(source, options);
+    // Line 0 (whole-diagram errors) points at the opening fence
+    const relocate = (error: ValidationError): ValidationError =>
+      error.line === undefined ? error : { ...error, line: error.line + lineOffset };
+
+    errors.push(...conversion.errors.map(relocate));
+    warnings.push(...conversion.warnings.map(relocate));
+    fenceSpecs.push(conversion.specs);
+  });
+
+  const merged = mergeMultiSpecDocs(fenceSpecs, fences.map(({ lineOffset }) => `diagram at line ${lineOffset}`));
+  const openapiResult = validateOpenApiSpecs(merged.specs);
+
+  return {
+    specs: merged.specs,
+    errors: [...errors, ...merged.errors, ...openapiResult.errors],
+    warnings: [...warnings, ...openapiResult.warnings]
+  };
+}
+
+/**
+ * Formats a validation error as a compiler-style `file:line: severity: message` line,
+ * followed by the suggestion when there is one. Errors that span several files
+ * (such as merge conflicts) have no location.
+ */
+export function formatDiagnostic(file: string | undefined, error: ValidationError): string {
+  const location = file && error.line ? `${file}:${error.line}: ` : file ? `${file}: ` : '';
+  const context = error.context ? ` (${error.context})` : '';
+  const suggestion = error.suggestion ? `\n  suggestion: ${error.suggestion}` : '';
+  return `${location}${error.severity}: ${error.message}${context}${suggestion}`;
+}
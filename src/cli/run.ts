@@ -0,0 +1,147 @@
+import { parseArgs } from 'node:util';
+import { join } from 'node:path';
+import { toYaml } from '@/generators/yamlFormatter';
+import { generateSwaggerSpecs } from '@/generators/swaggerExporter';
+import { mergeMultiSpecDocs } from '@/generators/specMerger';
+import type { MultiSpecDocs, OpenApiVersion, ValidationError } from '@/types';
+import { convertDiagram, convertMarkdown, formatDiagnostic } from './convert';
+
+/**
+ * File system and console access, injected so the CLI can run against memory in tests
+ */
+export interface CliIO {
+  readFile: (path: string) => string;
+  /** Writes a file, creating missing parent directories */
+  writeFile: (path: string, content: string) => void;
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export const USAGE = `Usage: mermaid-to-openapi convert <diagram.mmd|document.md...> [options]
+
+Markdown (.md, .mdx) files are scanned for \`\`\`mermaid sequence diagram fences.
+
+Options:
+  --out <dir>          Directory for the generated specs (default: current directory)
+  --format <format>    yaml or json (default: yaml)
+  --openapi <version>  3.0.0 or 3.1.0 (default: 3.0.0)
+  --swagger            Export Swagger 2.0 documents instead of OpenAPI 3
+  --include-actors     Generate specs for actors as well
+  --detect-formats     Guess string formats (date-time, email, uuid, ...) from examples
+  --help               Show this message`;
+
+const FORMATS = ['yaml', 'json'];
+const MARKDOWN_EXTENSIONS = /\.(md|mdx|markdown)$/i;
+const OPENAPI_VERSIONS: OpenApiVersion[] = ['3.0.0', '3.1.0'];
+
+/**
+ * Runs the CLI with the given arguments (without the node and script paths).
+ * Each file is converted separately, specs for the same server are merged and
+ * every server spec is written to `<out>/<server>.<format>`; diagnostics are
+ * printed as `file:line` locations.
+ *
+ * @returns Process exit code: 0 on success, 1 when any diagram has errors, 2 on usage errors
+ */
+export function runCli(args: string[], io: CliIO): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', default: '.' },
+        format: { type: 'string', default: 'yaml' },
+        openapi: { type: 'string', default: '3.0.0' },
+        swagger: { type: 'boolean', default: false },
+        'include-actors': { type: 'boolean', default: false },
+        'detect-formats': { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false }
+      }
+    });
+  } catch (err) {
+    io.error(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    io.log(USAGE);
+    return 0;
+  }
+
+  const [command, ...files] = positionals;
+  if (command !== 'convert' || files.length === 0) {
+    io.error(command && command !== 'convert' ? `Unknown command "${command}"\n\n${USAGE}` : USAGE);
+    return 2;
+  }
+  if (!FORMATS.includes(values.format)) {
+    io.error(`Unsupported format "${values.format}", expected one of: ${FORMATS.join(', ')}`);
+    return 2;
+  }
+  if (!OPENAPI_VERSIONS.includes(values.openapi as OpenApiVersion)) {
+    io.error(`Unsupported OpenAPI version "${values.openapi}", expected one of: ${OPENAPI_VERSIONS.join(', ')}`);
+    return 2;
+  }
+
+  let hasErrors = false;
+  // Diagnostics are printed in line order; those without a line come last
+  const report = (file: string, diagnostics: ValidationError[]) => {
+    [...diagnostics]
+      .sort((a, b) => (a.line || Infinity) - (b.line || Infinity))
+      .forEach(diagnostic => io.error(formatDiagnostic(file, diagnostic)));
+  };
+
+  const convertedSpecs: MultiSpecDocs[] = [];
+  const convertedFiles: string[] = [];
+
+  for (const file of files) {
+    let source: string;
+    try {
+      source = io.readFile(file);
+    } catch {
+      io.error(`${file}: error: cannot read file`);
+      hasErrors = true;
+      continue;
+    }
+
+    const convert = MARKDOWN_EXTENSIONS.test(file) ? convertMarkdown : convertDiagram;
+    const { specs, errors, warnings } = convert(source, {
+      openapiVersion: values.openapi as OpenApiVersion,
+      includeActors: values['include-actors'],
+      detectFormats: values['detect-formats']
+    });
+    report(file, [...errors, ...warnings]);
+
+    if (errors.length > 0) {
+      hasErrors = true;
+      continue;
+    }
+
+    convertedSpecs.push(specs);
+    convertedFiles.push(file);
+  }
+
+  // Specs for the same server coming from several files are merged into one
+  const merged = mergeMultiSpecDocs(convertedSpecs, convertedFiles);
+  merged.errors.forEach(error => io.error(formatDiagnostic(undefined, error)));
+  hasErrors = hasErrors || merged.errors.length > 0;
+
+  let documents: Record<string, object> = merged.specs;
+  if (values.swagger) {
+    const swaggerExport = generateSwaggerSpecs(merged.specs);
+    swaggerExport.warnings.forEach(warning => io.error(formatDiagnostic(undefined, warning)));
+    documents = swaggerExport.specs;
+  }
+
+  for (const [server, document] of Object.entries(documents)) {
+    const outputPath = join(values.out, `${server}.${values.format}`);
+    const content = values.format === 'json'
+      ? `${JSON.stringify(document, null, 2)}\n`
+      : toYaml(document);
+
+    io.writeFile(outputPath, content);
+    io.log(`Wrote ${outputPath}`);
+  }
+
+  return hasErrors ? 1 : 0;
+}
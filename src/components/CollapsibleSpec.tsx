@@ -1,14 +1,23 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { Copy, Check, ChevronRight, ChevronDown, Server } from 'lucide-react';
-import type { OpenApiDoc } from '../types';
+import type { OpenApiDoc, SwaggerDoc } from '../types';
 import { toYaml } from '../generators/yamlFormatter';
 
+export type SpecFormat = 'json' | 'yaml' | 'swagger';
+
 export interface CollapsibleSpecProps {
   title: string;
-  content: OpenApiDoc;
-  format: 'json' | 'yaml';
+  content: OpenApiDoc | SwaggerDoc;
+  /** Swagger 2.0 documents are rendered as YAML */
+  format: SpecFormat;
 }
 
+const FORMAT_LABELS: Record<SpecFormat, string> = {
+  json: 'JSON',
+  yaml: 'YAML',
+  swagger: 'Swagger 2.0'
+};
+
 export const CollapsibleSpec: React.FC<CollapsibleSpecProps> = ({
   title,
   content,
@@ -51,7 +60,7 @@ export const CollapsibleSpec: React.FC<CollapsibleSpecProps> = ({
           <Server size={16} className="text-blue-400" />
           <span>{title} API</span>
           <span className="text-xs bg-slate-600 px-2 py-0.5 rounded text-slate-300">
-            {format.toUpperCase()}
+            {FORMAT_LABELS[format]}
           </span>
         </div>
         <button
@@ -74,7 +83,7 @@ export const CollapsibleSpec: React.FC<CollapsibleSpecProps> = ({
             value={textContent}
             className="w-full h-full bg-slate-900 p-4 font-mono text-sm text-green-300 focus:outline-none resize-none"
             spellCheck={false}
-            aria-label={`${title} API ${format.toUpperCase()} content`}
+            aria-label={`${title} API ${FORMAT_LABELS[format]} content`}
           />
         </div>
       )}
@@ -15,7 +15,7 @@ export type { MermaidViewerProps } from './MermaidViewer';
 
 // CollapsibleSpec
 export { CollapsibleSpec, MemoizedCollapsibleSpec } from './CollapsibleSpec';
-export type { CollapsibleSpecProps } from './CollapsibleSpec';
+export type { CollapsibleSpecProps, SpecFormat } from './CollapsibleSpec';
 
 // GuideSection
 export { GuideSection } from './GuideSection';
@@ -1,3 +1,6 @@
 export * from './openapiGenerator';
 export * from './schemaGenerator';
 export * from './yamlFormatter';
+export * from './swaggerExporter';
+export * from './specMerger';
+export * from './openapiImporter';
@@ -1,11 +1,13 @@
-import type { MermaidAST } from '@/types';
-import type { Parameter, MultiSpecDocs, SecurityScheme, SchemaObject, Operation } from '@/types';
-import { generateSchema } from './schemaGenerator';
+import type { Interaction, MermaidAST, ParameterDeclaration } from '@/types';
+import type { Parameter, MultiSpecDocs, OpenApiDoc, PathItem, SecurityScheme, SchemaObject, Operation, MediaType, GeneratorOptions } from '@/types';
+import { areSchemasEqual, detectStringFormat, generateBodySchema, parseSchemaFromValue, removeExamples } from './schemaGenerator';
+import { mergeOperation } from './operationMerger';
+import { findOperationConflicts, getInteractionPayloads } from './operationConflicts';
 
 /**
  * Extracts parameters from a path (query and path parameters)
  */
-const extractParameters = (path: string): { cleanPath: string; parameters: Parameter[] } => {
+const extractParameters = (path: string, options: GeneratorOptions): { cleanPath: string; parameters: Parameter[] } => {
   const parameters: Parameter[] = [];
   let cleanPath = path;
 
@@ -18,10 +20,11 @@ const extractParameters = (path: string): { cleanPath: string; parameters: Param
       pairs.forEach(pair => {
         const [key, val] = pair.split('=');
         if (key) {
+          const format = options.detectFormats && val ? detectStringFormat(val) : undefined;
           parameters.push({
             name: key,
             in: 'query',
-            schema: { type: 'string', example: val || '' }
+            schema: format ? { type: 'string', format, example: val } : { type: 'string', example: val || '' }
           });
         }
       });
@@ -46,9 +49,43 @@ const extractParameters = (path: string): { cleanPath: string; parameters: Param
 };
 
 /**
- * Creates a security scheme object from a security string
+ * Merges parameters declared in notes (Header:, Cookie:, Query:, Path:) into the
+ * parameters extracted from the path; declarations win over inferred parameters
  */
-const createSecurityScheme = (security: string): SecurityScheme | null => {
+const mergeParameterDeclarations = (parameters: Parameter[], declarations: ParameterDeclaration[]): Parameter[] => {
+  const merged = [...parameters];
+
+  declarations.forEach(declaration => {
+    const { schema, isRequired } = declaration.definition
+      ? parseSchemaFromValue(declaration.definition)
+      : { schema: { type: 'string' }, isRequired: false };
+
+    const parameter: Parameter = {
+      name: declaration.name,
+      in: declaration.in,
+      schema
+    };
+    // Path parameters are always required
+    if (isRequired || declaration.in === 'path') {
+      parameter.required = true;
+    }
+
+    const existingIndex = merged.findIndex(p => p.name === declaration.name && p.in === declaration.in);
+    if (existingIndex >= 0) {
+      merged[existingIndex] = parameter;
+    } else {
+      merged.push(parameter);
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Creates a security scheme object from a security string, with placeholder details
+ * for schemes the diagram does not declare
+ */
+export const createSecurityScheme = (security: string): SecurityScheme | null => {
   // bearerAuth
   if (security === 'bearerAuth') {
     return {
@@ -109,62 +146,114 @@ const createSecurityScheme = (security: string): SecurityScheme | null => {
 };
 
 /**
- * Generates a unique schema name from a schema object
+ * Turns a property name into a component name (`line_items` becomes `LineItems`)
  */
-const generateSchemaName = (schema: SchemaObject, usedNames: Set<string>): string => {
-  if (schema.properties) {
+const toComponentName = (key: string): string | undefined => {
+  const name = key.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+  return /^[A-Za-z]/.test(name) ? name : undefined;
+};
+
+/**
+ * Names the items of an array in the singular (`LineItems` becomes `LineItem`)
+ */
+const toItemName = (name: string | undefined): string | undefined => {
+  if (!name) {
+    return undefined;
+  }
+  if (/ies$/.test(name)) {
+    return `${name.slice(0, -3)}y`;
+  }
+  if (/(?:ss|x|ch|sh)es$/.test(name)) {
+    return name.slice(0, -2);
+  }
+  return /[^s]s$/.test(name) ? name.slice(0, -1) : `${name}Item`;
+};
+
+/**
+ * Generates a unique schema name from a name hint (the property holding the schema),
+ * or from the first property keys of the schema
+ */
+const generateSchemaName = (schema: SchemaObject, usedNames: Set<string>, nameHint?: string): string => {
+  let baseName = nameHint;
+  if (!baseName && schema.properties) {
     const propKeys = Object.keys(schema.properties).slice(0, 3).join('');
     if (propKeys) {
-      const baseName = propKeys.charAt(0).toUpperCase() + propKeys.slice(1) + 'Schema';
-      let counter = 1;
-      let name = baseName;
-      while (usedNames.has(name)) {
-        name = `${baseName}${counter}`;
-        counter++;
-      }
-      return name;
+      baseName = propKeys.charAt(0).toUpperCase() + propKeys.slice(1) + 'Schema';
     }
   }
-  return 'AnonymousSchema';
+  if (!baseName) {
+    return 'AnonymousSchema';
+  }
+
+  let counter = 1;
+  let name = baseName;
+  while (usedNames.has(name)) {
+    name = `${baseName}${counter}`;
+    counter++;
+  }
+  return name;
 };
 
 /**
- * Removes example values from a schema for comparison purposes
+ * Counts every object shape of a schema tree (the schema itself, nested objects, array
+ * items and oneOf variants), ignoring examples
  */
-const removeExamples = (schema: SchemaObject): SchemaObject => {
-  const copy = { ...schema };
-  delete copy.example;
-  if (copy.properties) {
-    copy.properties = Object.fromEntries(
-      Object.entries(copy.properties).map(([key, value]) => [key, removeExamples(value)])
-    );
+const countSchemaShapes = (schema: SchemaObject, schemaUsage: Map<string, number>): void => {
+  if (schema.properties && Object.keys(schema.properties).length > 0) {
+    const schemaKey = JSON.stringify(removeExamples(schema));
+    schemaUsage.set(schemaKey, (schemaUsage.get(schemaKey) || 0) + 1);
+    Object.values(schema.properties).forEach(property => countSchemaShapes(property, schemaUsage));
   }
-  if (copy.items) {
-    copy.items = removeExamples(copy.items);
+  if (schema.items) {
+    countSchemaShapes(schema.items, schemaUsage);
   }
-  return copy;
+  schema.oneOf?.forEach(variant => countSchemaShapes(variant, schemaUsage));
 };
 
 /**
- * Checks if two schemas are identical (ignoring example values)
+ * Extracts the nested objects, array items and oneOf variants of a schema into
+ * components, keeping the schema itself inline
  */
-const areSchemasEqual = (schema1: SchemaObject, schema2: SchemaObject): boolean => {
-  return JSON.stringify(removeExamples(schema1)) === JSON.stringify(removeExamples(schema2));
+const extractNestedSchemaComponents = (
+  schema: SchemaObject,
+  components: Record<string, SchemaObject>,
+  usedNames: Set<string>,
+  schemaUsage: Map<string, number>,
+  nameHint?: string
+): SchemaObject => {
+  const extracted = { ...schema };
+  if (schema.properties) {
+    extracted.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [
+      key,
+      findOrCreateSchemaComponent(property, components, usedNames, schemaUsage, toComponentName(key))
+    ]));
+  }
+  if (schema.items) {
+    extracted.items = findOrCreateSchemaComponent(schema.items, components, usedNames, schemaUsage, toItemName(nameHint));
+  }
+  if (schema.oneOf) {
+    extracted.oneOf = schema.oneOf.map(variant => findOrCreateSchemaComponent(variant, components, usedNames, schemaUsage, nameHint));
+  }
+  return extracted;
 };
 
 /**
- * Finds or creates a reusable schema component
- * Extracts to component if the schema is used more than once
+ * Finds or creates a reusable schema component.
+ * Extracts to component if the schema is used more than once; nested objects and
+ * array items are extracted the same way first, named after their property
  */
-const findOrCreateSchemaComponent = (
+function findOrCreateSchemaComponent(
   schema: SchemaObject,
   components: Record<string, SchemaObject>,
   usedNames: Set<string>,
-  schemaUsage: Map<string, number>
-): SchemaObject => {
+  schemaUsage: Map<string, number>,
+  nameHint?: string
+): SchemaObject {
+  const extracted = extractNestedSchemaComponents(schema, components, usedNames, schemaUsage, nameHint);
+
   // Don't extract simple schemas (primitives or arrays of primitives)
   if (!schema.properties || Object.keys(schema.properties).length === 0) {
-    return schema;
+    return extracted;
   }
 
   const schemaKey = JSON.stringify(removeExamples(schema));
@@ -172,22 +261,107 @@ const findOrCreateSchemaComponent = (
 
   // Only extract if used more than once
   if (usageCount <= 1) {
-    return schema;
+    return extracted;
   }
 
   // Check if we already have an identical schema
   for (const [name, existingSchema] of Object.entries(components)) {
-    if (areSchemasEqual(schema, existingSchema)) {
+    if (areSchemasEqual(extracted, existingSchema)) {
       return { $ref: `#/components/schemas/${name}` };
     }
   }
 
   // Create new schema component
-  const name = generateSchemaName(schema, usedNames);
+  const name = generateSchemaName(schema, usedNames, nameHint);
   usedNames.add(name);
-  components[name] = schema;
+  components[name] = extracted;
 
   return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Rewrites a 3.0 schema with JSON Schema 2020-12 keywords: `nullable` becomes a
+ * type array (or a oneOf/anyOf variant) including "null" and `example` becomes an
+ * `examples` array
+ */
+const upgradeSchemaTo31 = (schema: SchemaObject): SchemaObject => {
+  const { example, nullable, ...upgraded } = schema;
+
+  if (nullable) {
+    if (typeof upgraded.type === 'string') {
+      upgraded.type = [upgraded.type, 'null'];
+    } else if (upgraded.oneOf) {
+      upgraded.oneOf = [...upgraded.oneOf, { type: 'null' }];
+    } else if (upgraded.anyOf) {
+      upgraded.anyOf = [...upgraded.anyOf, { type: 'null' }];
+    }
+  }
+  if (upgraded.properties) {
+    upgraded.properties = Object.fromEntries(
+      Object.entries(upgraded.properties).map(([key, value]) => [key, upgradeSchemaTo31(value)])
+    );
+  }
+  if (upgraded.items) {
+    upgraded.items = upgradeSchemaTo31(upgraded.items);
+  }
+  (['oneOf', 'anyOf', 'allOf'] as const).forEach(keyword => {
+    if (upgraded[keyword]) {
+      upgraded[keyword] = upgraded[keyword].map(upgradeSchemaTo31);
+    }
+  });
+  if (example !== undefined) {
+    upgraded.examples = [example];
+  }
+
+  return upgraded;
+};
+
+/**
+ * Moves security to the document when every operation of a spec (webhooks included)
+ * has the same requirements, as the default for the whole API. A spec needs at least
+ * two operations for that: the requirements of a single operation stay where the
+ * diagram wrote them, since a default shared with nothing says no more.
+ */
+export const hoistSharedSecurity = (spec: OpenApiDoc): void => {
+  const operations = [...Object.values(spec.paths), ...Object.values(spec.webhooks || {})].flatMap(pathItem => Object.values(pathItem));
+  const [first] = operations;
+  if (operations.length < 2 || !first.security ||
+      !operations.every(operation => JSON.stringify(operation.security) === JSON.stringify(first.security))) {
+    return;
+  }
+
+  spec.security = first.security;
+  operations.forEach(operation => delete operation.security);
+};
+
+/**
+ * Upgrades every schema of a generated spec (operations, webhooks and components) to 3.1
+ */
+const upgradeSpecTo31 = (spec: OpenApiDoc): void => {
+  const pathItems: PathItem[] = [...Object.values(spec.paths), ...Object.values(spec.webhooks || {})];
+
+  pathItems.forEach(pathItem => {
+    Object.values(pathItem).forEach(operation => {
+      operation.parameters?.forEach(parameter => {
+        parameter.schema = upgradeSchemaTo31(parameter.schema);
+      });
+      const mediaTypes = [
+        ...Object.values(operation.requestBody?.content || {}),
+        ...Object.values(operation.responses).flatMap(response => Object.values(response.content || {}))
+      ];
+      mediaTypes.forEach(mediaType => {
+        if (mediaType.schema) {
+          mediaType.schema = upgradeSchemaTo31(mediaType.schema);
+        }
+      });
+    });
+  });
+
+  if (spec.components?.schemas) {
+    spec.components.schemas = Object.fromEntries(
+      Object.entries(spec.components.schemas).map(([name, schema]) => [name, upgradeSchemaTo31(schema)])
+    );
+  }
 };
 
 /**
@@ -206,42 +380,103 @@ const getDefaultResponseMediaType = (): string => {
 
 /**
  * Generates OpenAPI specs from a Mermaid AST
+ * Actors (`actor User`) are treated as clients and get no spec unless `includeActors` is set.
+ * With `openapiVersion: '3.1.0'`, requests a server sends to an actor become webhooks
+ * of the sending server, named after their path.
  */
-export function generateOpenApiSpecs(ast: MermaidAST): MultiSpecDocs {
+export function generateOpenApiSpecs(ast: MermaidAST, options: GeneratorOptions = {}): MultiSpecDocs {
   const specs: MultiSpecDocs = {};
+  const openapiVersion = options.openapiVersion || '3.0.0';
+  const participantTable = new Map((ast.participantTable || []).map(participant => [participant.id, participant]));
+  const isServer = (name: string) => options.includeActors || participantTable.get(name)?.kind !== 'actor';
+  // The server whose spec documents an interaction: its target, or its sender for webhooks
+  const getSpecOwner = ({ from, to }: { from: string; to: string }): string | undefined => {
+    if (isServer(to)) {
+      return to;
+    }
+    return openapiVersion === '3.1.0' && from && isServer(from) ? from : undefined;
+  };
   const securitySchemesCache: Record<string, Record<string, SecurityScheme>> = {};
+  // Security schemes declared in notes (`SecurityScheme ...`), used instead of the built-in defaults
+  const declaredSecuritySchemes = ast.securitySchemes || {};
   const schemaComponentsCache: Record<string, Record<string, SchemaObject>> = {};
   const usedSchemaNames: Record<string, Set<string>> = {};
   const allTags: Set<string> = new Set();
   const schemaUsage: Record<string, Map<string, number>> = {};
+  // Named schemas (`%% @schema` definitions and `Body<User>:` payloads) each server refers to,
+  // emitted as components under their name
+  const namedSchemas = ast.schemas || {};
+  const namedSchemaUsage: Record<string, Set<string>> = {};
+  // Payloads documented by each media type, to list examples of merged duplicate operations
+  const mediaTypePayloads = new Map<MediaType, unknown[]>();
+  // Interaction that first defined each operation, which later duplicates are compared with
+  const firstInteractions = new Map<Operation, Interaction>();
+  // Media type object documenting an operation part ('request body' or 'response <status> body')
+  const findMediaType = (operation: Operation, part: string, mediaType: string): MediaType | undefined => {
+    const content = part === 'request body'
+      ? operation.requestBody?.content
+      : operation.responses[part.split(' ')[1]]?.content;
+    return content?.[mediaType];
+  };
 
   // First pass: collect all tags and count schema usage
   ast.interactions.forEach((interaction) => {
+    const server = getSpecOwner(interaction);
+    if (!server) {
+      return;
+    }
+
     if (interaction.tags) {
       interaction.tags.forEach(tag => allTags.add(tag));
     }
 
     // Count schema usage for component extraction
-    const { to: server, body } = interaction;
-    if (server && body) {
-      try {
-        const schema = generateSchema(body as Record<string, unknown>);
-        if (schema.properties && Object.keys(schema.properties).length > 0) {
-          // Use schema without examples for comparison
-          const schemaKey = JSON.stringify(removeExamples(schema));
-          if (!schemaUsage[server]) {
-            schemaUsage[server] = new Map();
-          }
-          schemaUsage[server].set(schemaKey, (schemaUsage[server].get(schemaKey) || 0) + 1);
-        }
-      } catch {
-        // Ignore schema generation errors
+    const { body } = interaction;
+    schemaUsage[server] ??= new Map();
+
+    // Note bodies and response payloads all take part in component extraction
+    const payloads = [body, interaction.requestBody, interaction.responseBody];
+    interaction.responses?.forEach(({ body: responseBody }) => payloads.push(responseBody));
+
+    payloads.forEach(payload => {
+      if (payload !== undefined && payload !== null) {
+        countSchemaShapes(generateBodySchema(payload, options), schemaUsage[server]);
       }
-    }
+    });
+
+    const { requestSchema, responses } = getInteractionPayloads(interaction);
+    [requestSchema, ...responses.map(({ schema }) => schema)].forEach(name => {
+      if (name && Object.hasOwn(namedSchemas, name)) {
+        (namedSchemaUsage[server] ??= new Set()).add(name);
+      }
+    });
+  });
+
+  // Named schemas take part once in each server that refers to them
+  Object.entries(namedSchemaUsage).forEach(([server, names]) => {
+    names.forEach(name => countSchemaShapes(generateBodySchema(namedSchemas[name], options), schemaUsage[server]));
   });
 
+  // Schema documenting a body: its named component, or one generated from the payload.
+  // Unknown names are still referenced, so spec validation reports them.
+  const getBodySchema = (server: string, payload: unknown, schemaName?: string): SchemaObject | undefined => {
+    if (schemaName) {
+      return { $ref: `#/components/schemas/${schemaName}` };
+    }
+    if (payload === undefined || payload === null) {
+      return undefined;
+    }
+    return findOrCreateSchemaComponent(
+      generateBodySchema(payload, options),
+      schemaComponentsCache[server],
+      usedSchemaNames[server],
+      schemaUsage[server] || new Map()
+    );
+  };
+
   ast.interactions.forEach((interaction) => {
-    const { to: server, method, path: rawPath, body, response, security, tags, externalDocs, requestMediaType, responseMediaType, operationId, deprecated } = interaction;
+    const { to, method, path: rawPath, security, tags, externalDocs, requestMediaType, responseMediaType, operationId, deprecated } = interaction;
+    const server = getSpecOwner(interaction);
 
     if (!method || !rawPath || !server) {
       return;
@@ -249,9 +484,10 @@ export function generateOpenApiSpecs(ast: MermaidAST): MultiSpecDocs {
 
     // Initialize spec for this server if not exists
     if (!specs[server]) {
+      const title = participantTable.get(server)?.label || server;
       specs[server] = {
-        openapi: '3.0.0',
-        info: { title: `${server} API`, version: '1.0.0' },
+        openapi: openapiVersion,
+        info: { title: `${title} API`, version: '1.0.0' },
         paths: {},
         components: {
           securitySchemes: {},
@@ -260,7 +496,17 @@ export function generateOpenApiSpecs(ast: MermaidAST): MultiSpecDocs {
       };
       securitySchemesCache[server] = {};
       schemaComponentsCache[server] = {};
-      usedSchemaNames[server] = new Set();
+      // Generated component names never take a name used in the diagram
+      usedSchemaNames[server] = new Set(Object.keys(namedSchemas));
+      namedSchemaUsage[server]?.forEach(name => {
+        schemaComponentsCache[server][name] = extractNestedSchemaComponents(
+          generateBodySchema(namedSchemas[name], options),
+          schemaComponentsCache[server],
+          usedSchemaNames[server],
+          schemaUsage[server],
+          name
+        );
+      });
     }
 
     // Initialize tags in spec
@@ -269,12 +515,16 @@ export function generateOpenApiSpecs(ast: MermaidAST): MultiSpecDocs {
     }
 
     // Parse path and extract parameters
-    const { cleanPath, parameters } = extractParameters(rawPath);
+    const { cleanPath, parameters: pathParameters } = extractParameters(rawPath, options);
+    const parameters = mergeParameterDeclarations(pathParameters, interaction.parameters || []);
     const normalizedMethod = method.toLowerCase();
 
+    // Requests sent to a client are webhooks of the sending server
+    const pathItems = server === to ? specs[server].paths : (specs[server].webhooks ??= {});
+
     // Initialize path structure if not exists
-    if (!specs[server].paths[cleanPath]) {
-      specs[server].paths[cleanPath] = {};
+    if (!pathItems[cleanPath]) {
+      pathItems[cleanPath] = {};
     }
 
     // Create operation with documentation features
@@ -309,95 +559,124 @@ export function generateOpenApiSpecs(ast: MermaidAST): MultiSpecDocs {
       operation.externalDocs = externalDocs;
     }
 
-    specs[server].paths[cleanPath][normalizedMethod] = operation;
+    // A repeated METHOD /path is merged into the operation defined first
+    const existingOperation = pathItems[cleanPath][normalizedMethod];
+    if (!existingOperation) {
+      pathItems[cleanPath][normalizedMethod] = operation;
+      firstInteractions.set(operation, interaction);
+    }
 
     // Add security to operation
     if (security && security.length > 0) {
       const operationSecurity: Record<string, string[]>[] = [];
 
-      security.forEach(sec => {
-        const scheme = createSecurityScheme(sec);
-        if (scheme) {
-          // Add scheme to components if not already added
-          if (!securitySchemesCache[server][sec]) {
-            securitySchemesCache[server][sec] = scheme;
-            specs[server].components!.securitySchemes![sec] = scheme;
-          }
+      security.forEach(requirement => {
+        // "none" is the empty requirement that makes authentication optional
+        if (requirement === 'none') {
+          operationSecurity.push({});
+          return;
+        }
 
-          // Add security reference to operation
-          // Handle scopes for oauth2
-          if (sec.startsWith('oauth2:')) {
-            const scopes = sec.split(':')[1].split(',');
-            operationSecurity.push({ [sec]: scopes });
-          } else {
-            operationSecurity.push({ [sec]: [] });
+        // Schemes joined with "+" must all be satisfied, so they share one requirement object
+        const combined: Record<string, string[]> = {};
+        requirement.split('+').forEach(sec => {
+          // Schemes declared in the diagram are referred to by name, with scopes after a colon
+          const [name, scopeList] = sec.split(':');
+          const declared = Object.hasOwn(declaredSecuritySchemes, name) ? declaredSecuritySchemes[name] : undefined;
+          const schemeName = declared ? name : sec;
+          const scheme = declared || createSecurityScheme(sec);
+          if (scheme) {
+            // Add scheme to components if not already added
+            if (!securitySchemesCache[server][schemeName]) {
+              securitySchemesCache[server][schemeName] = scheme;
+              specs[server].components!.securitySchemes![schemeName] = scheme;
+            }
+
+            // Add security reference to operation
+            // Handle scopes for oauth2
+            combined[schemeName] = scopeList ? scopeList.split(',') : [];
           }
+        });
+
+        if (Object.keys(combined).length > 0) {
+          operationSecurity.push(combined);
         }
       });
 
       if (operationSecurity.length > 0) {
-        specs[server].paths[cleanPath][normalizedMethod].security = operationSecurity;
+        operation.security = operationSecurity;
       }
     }
 
-    // Add response if present
-    if (response) {
-      const status = response.status || '200';
-      const description = response.description || 'Response description';
+    const { request: requestPayload, requestSchema, responses: interactionResponses } = getInteractionPayloads(interaction);
+    // Media types filled from a payload, keyed by the part of the operation they document
+    const documentedPayloads: { part: string; mediaType: string; payload: unknown }[] = [];
+
+    // Add responses if present (the first response is the primary one)
+    interactionResponses.forEach(({ response: interactionResponse, payload, schema }) => {
+      const status = interactionResponse.status || '200';
+      const description = interactionResponse.description || 'Response description';
 
       // Determine response media type
       const responseType = responseMediaType || getDefaultResponseMediaType();
 
-      specs[server].paths[cleanPath][normalizedMethod].responses[status] = {
+      operation.responses[status] = {
         description,
         content: {
           [responseType]: { schema: { type: 'object', example: {} } }
         }
       };
 
-      // Add response body if present (body applies to response for GET requests)
-      if (body && !['post', 'put', 'patch'].includes(normalizedMethod)) {
-        try {
-          const schema = generateSchema(body as Record<string, unknown>);
-          // Try to find or create a reusable schema component
-          const processedSchema = findOrCreateSchemaComponent(
-            schema,
-            schemaComponentsCache[server],
-            usedSchemaNames[server],
-            schemaUsage[server] || new Map()
-          );
-          specs[server].paths[cleanPath][normalizedMethod].responses[status].content![responseType].schema = processedSchema;
-        } catch {
-          // If body parsing fails, keep default empty schema
+      // Try to find or create a reusable schema component
+      const processedSchema = getBodySchema(server, payload, schema);
+      if (processedSchema) {
+        operation.responses[status].content![responseType].schema = processedSchema;
+        if (payload !== undefined && payload !== null) {
+          documentedPayloads.push({ part: `response ${status} body`, mediaType: responseType, payload });
         }
       }
-    }
+    });
 
-    // Add request body if present (only for POST, PUT, PATCH)
-    if (body && ['post', 'put', 'patch'].includes(normalizedMethod)) {
-      try {
-        const schema = generateSchema(body as Record<string, unknown>);
-        // Try to find or create a reusable schema component
-        const processedSchema = findOrCreateSchemaComponent(
-          schema,
-          schemaComponentsCache[server],
-          usedSchemaNames[server],
-          schemaUsage[server] || new Map()
-        );
+    // Add request body if present
+    const requestBodySchema = getBodySchema(server, requestPayload, requestSchema);
+    if (requestBodySchema) {
+      // Determine request media type
+      const requestType = requestMediaType || getDefaultRequestMediaType();
 
-        // Determine request media type
-        const requestType = requestMediaType || getDefaultRequestMediaType();
-
-        specs[server].paths[cleanPath][normalizedMethod].requestBody = {
-          content: {
-            [requestType]: { schema: processedSchema }
-          },
-          required: true
-        };
-      } catch {
-        // If body parsing fails, skip request body
+      operation.requestBody = {
+        content: {
+          [requestType]: { schema: requestBodySchema }
+        },
+        required: true
+      };
+      if (requestPayload !== undefined && requestPayload !== null) {
+        documentedPayloads.push({ part: 'request body', mediaType: requestType, payload: requestPayload });
       }
     }
+
+    // Conflicting parts keep the first definition (the validator reports them); the
+    // payloads of compatible parts are listed as examples of the merged media type
+    const conflicts = existingOperation ? findOperationConflicts(firstInteractions.get(existingOperation)!, interaction) : [];
+    if (existingOperation) {
+      mergeOperation(existingOperation, operation, cleanPath);
+    }
+    documentedPayloads
+      .filter(({ part }) => !conflicts.includes(part))
+      .forEach(({ part, mediaType, payload }) => {
+        const mediaTypeObject = findMediaType(existingOperation || operation, part, mediaType);
+        if (mediaTypeObject) {
+          mediaTypePayloads.set(mediaTypeObject, [...(mediaTypePayloads.get(mediaTypeObject) || []), payload]);
+        }
+      });
+  });
+
+  mediaTypePayloads.forEach((payloads, mediaTypeObject) => {
+    const distinct = [...new Map(payloads.map(payload => [JSON.stringify(payload), payload])).values()];
+    if (distinct.length > 1) {
+      mediaTypeObject.examples = Object.fromEntries(
+        distinct.map((payload, index) => [`example${index + 1}`, { value: payload }])
+      );
+    }
   });
 
   // Copy schema components from cache to specs
@@ -427,5 +706,11 @@ export function generateOpenApiSpecs(ast: MermaidAST): MultiSpecDocs {
     }
   });
 
+  Object.values(specs).forEach(hoistSharedSecurity);
+
+  if (openapiVersion === '3.1.0') {
+    Object.values(specs).forEach(upgradeSpecTo31);
+  }
+
   return specs;
 }
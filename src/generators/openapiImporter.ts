@@ -0,0 +1,627 @@
+import type {
+  MediaType,
+  MermaidImport,
+  OAuthFlow,
+  OpenApiDoc,
+  Operation,
+  Parameter,
+  PathItemObject,
+  SchemaObject,
+  SecurityScheme,
+  ValidationError
+} from '@/types';
+import { CORE_SCHEMA, load, YAMLException } from 'js-yaml';
+import { quoteDefinitionValue } from '@/parser/schemaDefinition';
+import { parseSecuritySchemeDeclaration, SECURITY_SCHEME_TYPES } from '@/parser/securityScheme';
+import { createSecurityScheme } from './openapiGenerator';
+import { parseSchemaFromValue } from './schemaGenerator';
+
+// Methods the diagram syntax understands
+const DIAGRAM_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+// Methods whose plain Body: note is the request body
+const METHODS_WITH_BODY = ['post', 'put', 'patch'];
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+const SCALAR_TYPES = ['string', 'integer', 'number', 'boolean'];
+
+/**
+ * Creates an import warning for a part of the spec the diagram cannot express
+ */
+const importWarning = (message: string, context: string, suggestion?: string): ValidationError => ({
+  source: 'openapi',
+  severity: 'warning',
+  message,
+  context,
+  suggestion
+});
+
+/**
+ * Collapses text to a single line, as note directives end at the line break
+ */
+const oneLine = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Follows local `#/...` references (e.g. to `#/components/parameters/Limit`).
+ * External and circular references are returned unresolved.
+ */
+const resolveRef = <T>(spec: OpenApiDoc, value: T): T => {
+  let current: unknown = value;
+  const seen = new Set<string>();
+
+  while (current && typeof current === 'object' && typeof (current as { $ref?: unknown }).$ref === 'string') {
+    const ref = (current as { $ref: string }).$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      break;
+    }
+    seen.add(ref);
+
+    const target = ref.slice(2).split('/')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>((node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), spec);
+    if (target === undefined) {
+      break;
+    }
+    current = target;
+  }
+
+  return current as T;
+};
+
+/**
+ * Gets the type of a schema; 3.1 type arrays use their first non-null type
+ */
+const schemaType = (schema: SchemaObject): string | undefined => {
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  if (type) {
+    return type;
+  }
+  return schema.properties ? 'object' : schema.items ? 'array' : undefined;
+};
+
+/**
+ * Tells whether a schema allows null (3.0 `nullable` or a 3.1 "null" type)
+ */
+const isNullable = (schema: SchemaObject): boolean =>
+  schema.nullable === true || (Array.isArray(schema.type) ? schema.type.includes('null') : schema.type === 'null');
+
+/**
+ * Writes a scalar schema in the diagram's definition mini-language
+ * (`integer, required, min:1`), or returns undefined when the type alone describes it
+ */
+const scalarDefinition = (schema: SchemaObject, required: boolean): string | undefined => {
+  const type = schemaType(schema) || 'string';
+  const nullable = isNullable(schema);
+  const parts = [nullable ? `${type}|null` : type];
+
+  if (required) {
+    parts.push('required');
+  }
+  const [min, max] = type === 'string'
+    ? [schema.minLength, schema.maxLength]
+    : [schema.minimum, schema.maximum];
+  if (min !== undefined) {
+    parts.push(`min:${min}`);
+  }
+  if (max !== undefined) {
+    parts.push(`max:${max}`);
+  }
+  if (schema.format) {
+    parts.push(`format:${quoteDefinitionValue(schema.format)}`);
+  }
+  if (schema.enum?.length) {
+    parts.push(`enum:${schema.enum.map(value => quoteDefinitionValue(String(value), ',|')).join('|')}`);
+  }
+  if (schema.default !== undefined) {
+    parts.push(`default:${quoteDefinitionValue(String(schema.default))}`);
+  }
+  if (schema.pattern) {
+    parts.push(`pattern:${quoteDefinitionValue(schema.pattern)}`);
+  }
+  if (schema.multipleOf !== undefined) {
+    parts.push(`multipleOf:${schema.multipleOf}`);
+  }
+  if (schema.readOnly) {
+    parts.push('readOnly');
+  }
+  if (schema.writeOnly) {
+    parts.push('writeOnly');
+  }
+  // Definition examples are read back as strings
+  if (type === 'string' && typeof schema.example === 'string' && parts.length > 1) {
+    parts.push(`example:${quoteDefinitionValue(schema.example)}`);
+  }
+
+  return parts.length > 1 || nullable ? parts.join(', ') : undefined;
+};
+
+/**
+ * Writes alternatives between bare scalar types as a type list (`integer|string|null`),
+ * or returns undefined when a variant needs more than its type
+ */
+const typeListDefinition = (variants: SchemaObject[], required: boolean): string | undefined => {
+  const types = variants.map(variant => Object.keys(variant).length === 1 ? variant.type : undefined);
+  if (!types.every(type => typeof type === 'string' && (SCALAR_TYPES.includes(type) || type === 'null'))) {
+    return undefined;
+  }
+  return required ? `${types.join('|')}, required` : types.join('|');
+};
+
+/**
+ * Builds a JSON payload the schema generator turns back into the given schema:
+ * examples where they infer the right type, definition strings for required or
+ * constrained scalars and type names otherwise
+ */
+const payloadFromSchema = (spec: OpenApiDoc, schema: SchemaObject, required = false, refs: string[] = []): unknown => {
+  if (schema.$ref) {
+    // Circular references end in an empty object
+    if (refs.includes(schema.$ref)) {
+      return {};
+    }
+    const resolved = resolveRef(spec, schema);
+    return resolved.$ref ? {} : payloadFromSchema(spec, resolved, required, [...refs, schema.$ref]);
+  }
+
+  // Alternatives keep their type list when they are bare scalars and their first variant
+  // otherwise; array items write each variant as an element
+  const variants = schema.oneOf || schema.anyOf;
+  if (variants?.length) {
+    const typeList = typeListDefinition(schema.nullable ? [...variants, { type: 'null' }] : variants, required);
+    return typeList ?? payloadFromSchema(spec, variants[0], required, refs);
+  }
+
+  const type = schemaType(schema);
+  if ((!type || type === 'null') && isNullable(schema)) {
+    return null;
+  }
+  if (type === 'object') {
+    if (!schema.properties && schema.example && typeof schema.example === 'object') {
+      return schema.example;
+    }
+    return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, property]) => [
+      name,
+      payloadFromSchema(spec, property, schema.required?.includes(name), refs)
+    ]));
+  }
+  if (type === 'array') {
+    const itemVariants = schema.items?.oneOf || schema.items?.anyOf;
+    if (itemVariants?.length) {
+      const elements = itemVariants.map(variant => payloadFromSchema(spec, variant, false, refs));
+      return schema.items?.nullable ? [...elements, null] : elements;
+    }
+    if (schema.items) {
+      return [payloadFromSchema(spec, schema.items, false, refs)];
+    }
+    return Array.isArray(schema.example) ? schema.example : [];
+  }
+
+  const definition = scalarDefinition(schema, required);
+  if (definition) {
+    return definition;
+  }
+  if (schema.example !== undefined) {
+    const inferred = parseSchemaFromValue(schema.example).schema;
+    if (inferred.type === (type || 'string') && inferred.example === schema.example) {
+      return schema.example;
+    }
+  }
+  return type && SCALAR_TYPES.includes(type) ? type : 'string';
+};
+
+/**
+ * Picks the first media type of a request or response; others are reported
+ */
+const firstMediaType = (
+  content: Record<string, MediaType> | undefined,
+  context: string,
+  warnings: ValidationError[]
+): [string, MediaType] | undefined => {
+  const mediaTypes = Object.entries(content || {});
+  if (mediaTypes.length > 1) {
+    warnings.push(importWarning(
+      `Only the "${mediaTypes[0][0]}" media type is kept`,
+      context,
+      'A diagram interaction describes a single media type per body'
+    ));
+  }
+  return mediaTypes[0];
+};
+
+/**
+ * Checks for the bodiless response schema the generator writes (an object without
+ * properties), which a response arrow without a payload produces again
+ */
+const isBodilessSchema = (spec: OpenApiDoc, mediaType: MediaType): boolean => {
+  const schema = mediaType.schema && resolveRef(spec, mediaType.schema);
+  return !!schema && schemaType(schema) === 'object' && !schema.properties &&
+    (schema.example === undefined || (typeof schema.example === 'object' && schema.example !== null &&
+      Object.keys(schema.example).length === 0));
+};
+
+/**
+ * Gets the component schema a media type refers to, when the diagram can name a
+ * body after it (`Body<User>:`)
+ */
+const componentName = (mediaType: MediaType): string | undefined => {
+  const match = /^#\/components\/schemas\/([A-Za-z][\w.-]*)$/.exec(mediaType.schema?.$ref || '');
+  return match?.[1];
+};
+
+/**
+ * Builds the body payload of a media type: from its schema, or its example
+ */
+const mediaTypePayload = (spec: OpenApiDoc, mediaType: MediaType): unknown => {
+  if (mediaType.schema) {
+    return payloadFromSchema(spec, mediaType.schema);
+  }
+  return mediaType.example;
+};
+
+/**
+ * Quotes a SecurityScheme option value containing spaces or quotes
+ */
+const declarationValue = (value: string): string =>
+  /[\s'"]/.test(value) ? (value.includes('"') ? `'${value}'` : `"${value}"`) : value;
+
+/**
+ * Writes a security scheme component as the text after `SecurityScheme`, e.g.
+ * `partnerKey apiKey name=X-Partner-Key in=header`. OAuth2 schemes keep their first
+ * flow. Returns undefined for API keys sent in a cookie, which diagrams cannot describe.
+ */
+const securitySchemeDeclaration = (name: string, scheme: SecurityScheme, warnings: ValidationError[]): string | undefined => {
+  // A name spelled like a type would be read as the type; such schemes keep their default name
+  const isTypeName = SECURITY_SCHEME_TYPES.some(type => type.toLowerCase() === name.toLowerCase());
+  const words = isTypeName ? [scheme.type] : [name, scheme.type];
+
+  switch (scheme.type) {
+    case 'apiKey':
+      if (scheme.in !== 'header' && scheme.in !== 'query') {
+        warnings.push(importWarning(`API key "${name}" in ${scheme.in} is not supported and was dropped`, name));
+        return undefined;
+      }
+      words.push(`name=${declarationValue(scheme.name || '')}`, `in=${scheme.in}`);
+      break;
+    case 'http':
+      words.push(scheme.scheme || 'bearer');
+      if (scheme.bearerFormat) {
+        words.push(`bearerFormat=${declarationValue(scheme.bearerFormat)}`);
+      }
+      break;
+    case 'oauth2': {
+      const flows = Object.entries(scheme.flows || {});
+      if (flows.length > 1) {
+        warnings.push(importWarning(
+          `Only the "${flows[0][0]}" flow of OAuth2 scheme "${name}" is kept`,
+          name,
+          'A SecurityScheme declaration describes a single flow'
+        ));
+      }
+      const [flowName, flow]: [string, OAuthFlow | undefined] = flows[0] || ['', undefined];
+      if (flowName) {
+        words.push(flowName);
+      }
+      if (!flow) {
+        break;
+      }
+      if (flow.authorizationUrl) {
+        words.push(`authUrl=${declarationValue(flow.authorizationUrl)}`);
+      }
+      if (flow.tokenUrl) {
+        words.push(`tokenUrl=${declarationValue(flow.tokenUrl)}`);
+      }
+      if (flow.refreshUrl) {
+        words.push(`refreshUrl=${declarationValue(flow.refreshUrl)}`);
+      }
+      const scopes = Object.entries(flow.scopes || {}).map(([scope, description]) => `${scope}:${declarationValue(oneLine(description))}`);
+      if (scopes.length > 0) {
+        words.push(`scopes=${scopes.join(',')}`);
+      }
+      break;
+    }
+    case 'openIdConnect':
+      words.push(`url=${declarationValue(scheme.openIdConnectUrl || '')}`);
+      break;
+  }
+
+  if (scheme.description) {
+    words.push(`description=${declarationValue(oneLine(scheme.description))}`);
+  }
+  return words.join(' ');
+};
+
+/**
+ * Writes a security requirement as a Security: note value, e.g. `partnerKey + oauth [read]`
+ * for combined schemes or `none` for the empty requirement. Schemes the generator creates
+ * from the built-in names (bearerAuth, apiKey in header, oauth2 [read] ...) keep them;
+ * other schemes are referred to by the name `declare` gives them. Returns undefined when
+ * none of its schemes can be written.
+ */
+const securityDirective = (
+  spec: OpenApiDoc,
+  requirement: Record<string, string[]>,
+  declare: (name: string, scheme: SecurityScheme) => string | undefined
+): string | undefined => {
+  const names = Object.keys(requirement);
+  if (names.length === 0) {
+    return 'none';
+  }
+
+  const schemes = names.flatMap(name => {
+    const scheme = spec.components?.securitySchemes?.[name];
+    const scopes = requirement[name] || [];
+    if (scheme && JSON.stringify(createSecurityScheme(name)) === JSON.stringify(scheme)) {
+      if (scheme.type === 'apiKey') {
+        return [`apiKey in ${scheme.in}`];
+      }
+      if (scheme.type === 'oauth2') {
+        return [scopes.length > 0 ? `oauth2 [${scopes.join(', ')}]` : 'oauth2'];
+      }
+      return [name];
+    }
+
+    const declaredName = scheme ? declare(name, scheme) : name;
+    if (!declaredName) {
+      return [];
+    }
+    return [scopes.length > 0 ? `${declaredName} [${scopes.join(', ')}]` : declaredName];
+  });
+  return schemes.length > 0 ? schemes.join(' + ') : undefined;
+};
+
+/**
+ * Writes a parameter as a Header:, Cookie:, Query: or Path: note value. Path
+ * parameters that are plain strings are implied by the path and skipped.
+ */
+const parameterDirective = (spec: OpenApiDoc, parameter: Parameter): string | undefined => {
+  const schema = parameter.schema ? resolveRef(spec, parameter.schema) : { type: 'string' };
+  const isPath = parameter.in === 'path';
+  const type = schemaType(schema) || 'string';
+  const definition = scalarDefinition({ ...schema, type }, !!parameter.required && !isPath);
+
+  if (isPath && !definition && type === 'string') {
+    return undefined;
+  }
+
+  const kind = parameter.in.charAt(0).toUpperCase() + parameter.in.slice(1);
+  return `${kind}: ${parameter.name} ${definition || type}`;
+};
+
+/**
+ * Derives a participant id (letters, digits and underscores) and label from the
+ * spec title; the generator names specs "<label> API"
+ */
+const serverParticipant = (spec: OpenApiDoc): { id: string; label: string } => {
+  const label = (spec.info?.title || 'API').replace(/\s+API$/, '').trim() || 'API';
+  const id = label.replace(/[^A-Za-z0-9_]/g, '') || 'API';
+  return { id: id === 'Client' ? 'Server' : id, label };
+};
+
+/**
+ * Reads YAML text with the YAML 1.2 core schema, so dates such as `version: 2024-01-01`
+ * stay strings
+ *
+ * @throws {SyntaxError} When the text is not valid YAML
+ */
+const readYaml = (source: string): unknown => {
+  try {
+    return load(source, { schema: CORE_SCHEMA });
+  } catch (error) {
+    throw error instanceof YAMLException ? new SyntaxError(error.message) : error;
+  }
+};
+
+/**
+ * Reads an OpenAPI 3 document from JSON or YAML text
+ *
+ * @throws {SyntaxError} When the text is neither valid JSON nor valid YAML
+ * @throws {Error} When the document is not an OpenAPI 3 document
+ */
+export function parseOpenApiDocument(source: string): OpenApiDoc {
+  const document = source.trimStart().startsWith('{') ? JSON.parse(source) : readYaml(source);
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Expected an OpenAPI document (an object with an "openapi" field)');
+  }
+  const { openapi, swagger } = document as { openapi?: unknown; swagger?: unknown };
+  if (swagger !== undefined) {
+    throw new Error('Swagger 2.0 documents are not supported, convert them to OpenAPI 3 first');
+  }
+  if (typeof openapi !== 'string' || !openapi.startsWith('3.')) {
+    throw new Error('Expected an OpenAPI 3 document (an object with an "openapi" field)');
+  }
+
+  return document as OpenApiDoc;
+}
+
+/**
+ * Converts an OpenAPI document into a Mermaid sequence diagram that the parser and
+ * generator turn back into an equivalent spec. Each operation becomes a request
+ * from a `Client` actor, described by the same note directives the parser reads
+ * (Summary:, Tags:, Operation-Id:, Security:, Query:, Request-Type:, Body: ...),
+ * with one response arrow per status code. Component schemas used as bodies are
+ * defined once at the top (`%% @schema User {...}`) and referred to by name.
+ * Webhooks become requests from the server to the client (generate with OpenAPI
+ * 3.1 to get them back as webhooks).
+ *
+ * @param source - The document, or its JSON or YAML text
+ * @returns The diagram and warnings for parts of the spec it cannot express
+ */
+export function importOpenApi(source: string | OpenApiDoc): MermaidImport {
+  const spec = typeof source === 'string' ? parseOpenApiDocument(source) : source;
+  const warnings: ValidationError[] = [];
+  const client = 'Client';
+  const server = serverParticipant(spec);
+
+  const lines = [
+    'sequenceDiagram',
+    `    actor ${client}`,
+    server.id === server.label ? `    participant ${server.id}` : `    participant ${server.id} as ${server.label}`
+  ];
+
+  // Component schemas the bodies refer to, defined at the top of the diagram
+  const referencedSchemas = new Set<string>();
+
+  // Writes a body directive; bodies referring to a component schema are named after it
+  const bodyDirective = (directive: string, mediaType: MediaType, payload: unknown): string => {
+    const name = componentName(mediaType);
+    if (!name) {
+      return `${directive}: ${JSON.stringify(payload)}`;
+    }
+    referencedSchemas.add(name);
+    return `${directive}<${name}>:`;
+  };
+
+  // SecurityScheme declarations of the security schemes the operations use, by component name
+  const securitySchemeDeclarations = new Map<string, { name: string; declaration: string } | undefined>();
+
+  // Declares a security scheme once and gives the name Security: lines refer to it by
+  const declareSecurityScheme = (name: string, scheme: SecurityScheme): string | undefined => {
+    if (!securitySchemeDeclarations.has(name)) {
+      const declaration = securitySchemeDeclaration(name, scheme, warnings);
+      const parsed = declaration === undefined ? undefined : parseSecuritySchemeDeclaration(declaration);
+      parsed?.problems.forEach(problem => {
+        warnings.push(importWarning(`Security scheme "${name}": ${problem.message}`, name, problem.suggestion));
+      });
+      if (parsed && parsed.name !== name) {
+        warnings.push(importWarning(
+          `Security scheme "${name}" is imported as "${parsed.name}"`,
+          name,
+          'Declared schemes cannot be named after a scheme type'
+        ));
+      }
+      securitySchemeDeclarations.set(name, parsed?.scheme && { name: parsed.name, declaration: declaration! });
+    }
+    return securitySchemeDeclarations.get(name)?.name;
+  };
+
+  const writeOperation = (from: string, to: string, path: string, method: string, operation: Operation, pathParameters: Parameter[]) => {
+    const context = `${path} (${method})`;
+    const note = (content: string) => lines.push(`    Note over ${to}: ${content}`);
+
+    lines.push('', `    ${from}->>${to}: ${method.toUpperCase()} ${path}`);
+
+    if (operation.summary) {
+      note(`Summary: ${oneLine(operation.summary)}`);
+    }
+    if (operation.description) {
+      note(`Description: ${oneLine(operation.description)}`);
+    }
+    if (operation.externalDocs?.url) {
+      note(`External-Docs-Url: ${oneLine(operation.externalDocs.url)}`);
+    }
+    if (operation.externalDocs?.description) {
+      note(`External-Docs-Description: ${oneLine(operation.externalDocs.description)}`);
+    }
+    if (operation.operationId) {
+      note(`Operation-Id: ${operation.operationId}`);
+    }
+    if (operation.tags && operation.tags.length > 0) {
+      note(`Tags: ${operation.tags.join(', ')}`);
+    }
+    if (operation.deprecated !== undefined) {
+      note(`Deprecated: ${operation.deprecated}`);
+    }
+
+    // Document-level security applies to operations without their own
+    (operation.security ?? spec.security)?.forEach(requirement => {
+      const directive = securityDirective(spec, requirement, declareSecurityScheme);
+      if (directive) {
+        note(`Security: ${directive}`);
+      }
+    });
+
+    // Operation parameters override path-level ones with the same name and location
+    const parameters = [...pathParameters, ...(operation.parameters || [])]
+      .map(parameter => resolveRef(spec, parameter))
+      .filter((parameter, index, all) =>
+        !all.slice(index + 1).some(later => later.name === parameter.name && later.in === parameter.in));
+    parameters.forEach(parameter => {
+      const directive = parameterDirective(spec, parameter);
+      if (directive) {
+        note(directive);
+      }
+    });
+
+    const requestBody = operation.requestBody && resolveRef(spec, operation.requestBody);
+    const request = firstMediaType(requestBody?.content, context, warnings);
+    if (request && request[0] !== DEFAULT_MEDIA_TYPE) {
+      note(`Request-Type: ${request[0]}`);
+    }
+
+    const responses = Object.entries(operation.responses || {}).filter(([status]) => {
+      if (/^\d{3}$/.test(status)) {
+        return true;
+      }
+      warnings.push(importWarning(`Response "${status}" was dropped`, context, 'Diagrams describe responses with numeric status codes'));
+      return false;
+    }).map(([status, response]) => {
+      const resolved = resolveRef(spec, response);
+      return { status, description: oneLine(resolved.description || ''), media: firstMediaType(resolved.content, `${context} - ${status}`, warnings) };
+    });
+
+    const responseType = responses.find(({ media }) => media)?.media![0];
+    if (responseType && responseType !== DEFAULT_MEDIA_TYPE) {
+      note(`Response-Type: ${responseType}`);
+    }
+    if (responses.some(({ media }) => media && media[0] !== responseType)) {
+      warnings.push(importWarning(`Responses use several media types, "${responseType}" is used for all of them`, context));
+    }
+
+    if (request) {
+      const payload = mediaTypePayload(spec, request[1]);
+      if (payload !== undefined) {
+        note(bodyDirective(METHODS_WITH_BODY.includes(method) ? 'Body' : 'Request-Body', request[1], payload));
+      }
+    }
+
+    responses.forEach(({ status, description, media }) => {
+      const payload = media && !isBodilessSchema(spec, media[1]) ? mediaTypePayload(spec, media[1]) : undefined;
+      const arrow = `    ${to}-->>${from}: ${status}${description ? ` ${description}` : ''}`;
+      // Inline payloads must be unnamed JSON objects or arrays, and the description may not look like one
+      if (payload && typeof payload === 'object' && !componentName(media![1]) && !/[{[]/.test(description)) {
+        lines.push(`${arrow} ${JSON.stringify(payload)}`);
+        return;
+      }
+      lines.push(arrow);
+      if (payload !== undefined) {
+        note(bodyDirective('Response-Body', media![1], payload));
+      }
+    });
+  };
+
+  const writePathItems = (pathItems: Record<string, PathItemObject> | undefined, isWebhook: boolean) => {
+    Object.entries(pathItems || {}).forEach(([path, pathItem]) => {
+      // Path-level parameters apply to every operation of the path
+      const { parameters: pathParameters = [], ...operations } = resolveRef(spec, pathItem);
+
+      Object.entries(operations).forEach(([method, operation]) => {
+        if (['summary', 'description', 'servers'].includes(method) || method.startsWith('x-')) {
+          return;
+        }
+        if (!DIAGRAM_METHODS.includes(method)) {
+          warnings.push(importWarning(`${method.toUpperCase()} ${path} was dropped`, path, `Diagrams support ${DIAGRAM_METHODS.join(', ')}`));
+          return;
+        }
+        if (isWebhook) {
+          writeOperation(server.id, client, path, method, operation, pathParameters);
+        } else {
+          writeOperation(client, server.id, path, method, operation, pathParameters);
+        }
+      });
+    });
+  };
+
+  writePathItems(spec.paths, false);
+  writePathItems(spec.webhooks, true);
+
+  // Schema definitions and security scheme declarations follow the participant declarations
+  lines.splice(3, 0, ...[...referencedSchemas].map(name => {
+    const payload = payloadFromSchema(spec, { $ref: `#/components/schemas/${name}` });
+    return `    %% @schema ${name} ${JSON.stringify(payload)}`;
+  }), ...[...securitySchemeDeclarations.values()].flatMap(declared =>
+    declared ? [`    Note over ${server.id}: SecurityScheme ${declared.declaration}`] : []
+  ));
+
+  return { diagram: `${lines.join('\n')}\n`, warnings };
+}
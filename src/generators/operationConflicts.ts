@@ -0,0 +1,107 @@
+import type { Interaction, InteractionResponse } from '@/types';
+import { areSchemasEqual, generateBodySchema } from './schemaGenerator';
+
+/**
+ * Resolves which payload documents the request body and each response of an interaction.
+ * A plain Body: note is the request body for POST, PUT and PATCH and the response body
+ * otherwise; Request-Body: and Response-Body: notes set each side explicitly. Inline JSON
+ * on a response arrow (or a note right after it) describes that response's body;
+ * otherwise the response note body applies to the primary (first) response.
+ * Named bodies (`Body<User>:`) also give the schema name documenting them.
+ */
+export const getInteractionPayloads = (
+  interaction: Interaction
+): {
+  request?: unknown;
+  requestSchema?: string;
+  responses: { response: InteractionResponse; payload?: unknown; schema?: string }[];
+} => {
+  const { body, bodySchema, response, responses } = interaction;
+  const sendsBody = ['post', 'put', 'patch'].includes((interaction.method || '').toLowerCase());
+  const hasResponseBody = interaction.responseBody !== undefined || !!interaction.responseBodySchema;
+  const hasRequestBody = interaction.requestBody !== undefined || !!interaction.requestBodySchema;
+  const [responsePayload, responseSchema] = hasResponseBody
+    ? [interaction.responseBody, interaction.responseBodySchema]
+    : sendsBody ? [] : [body, bodySchema];
+  const [requestPayload, requestSchema] = hasRequestBody
+    ? [interaction.requestBody, interaction.requestBodySchema]
+    : sendsBody ? [body, bodySchema] : [];
+
+  const interactionResponses = responses && responses.length > 0
+    ? responses
+    : response ? [response] : [];
+
+  return {
+    request: requestPayload,
+    requestSchema,
+    responses: interactionResponses.map((interactionResponse, index) => {
+      if (interactionResponse.body !== undefined || interactionResponse.bodySchema) {
+        return { response: interactionResponse, payload: interactionResponse.body, schema: interactionResponse.bodySchema };
+      }
+      return index === 0
+        ? { response: interactionResponse, payload: responsePayload, schema: responseSchema }
+        : { response: interactionResponse };
+    })
+  };
+};
+
+/**
+ * Checks whether two bodies of the same media type disagree: named bodies by their
+ * schema name, payloads by the schema generated from them (ignoring examples). A
+ * missing body never disagrees.
+ */
+const bodiesDiffer = (
+  first: { payload?: unknown; schema?: string },
+  second: { payload?: unknown; schema?: string }
+): boolean => {
+  const documented = (body: { payload?: unknown; schema?: string }) =>
+    !!body.schema || (body.payload !== undefined && body.payload !== null);
+  if (!documented(first) || !documented(second)) {
+    return false;
+  }
+  if (first.schema || second.schema) {
+    return first.schema !== second.schema;
+  }
+  return !areSchemasEqual(generateBodySchema(first.payload), generateBodySchema(second.payload));
+};
+
+/**
+ * Lists the parts on which a repeated METHOD /path disagrees with its first
+ * occurrence: written summaries, request and response body shapes of the same
+ * media type, and security. The generator keeps the first definition of those
+ * parts and the validator reports them.
+ */
+export const findOperationConflicts = (first: Interaction, second: Interaction): string[] => {
+  const conflicts: string[] = [];
+
+  if (first.summary && second.summary && first.summary !== second.summary) {
+    conflicts.push(`summary ("${first.summary}" vs "${second.summary}")`);
+  }
+
+  const firstPayloads = getInteractionPayloads(first);
+  const secondPayloads = getInteractionPayloads(second);
+  if (first.requestMediaType === second.requestMediaType && bodiesDiffer(
+    { payload: firstPayloads.request, schema: firstPayloads.requestSchema },
+    { payload: secondPayloads.request, schema: secondPayloads.requestSchema }
+  )) {
+    conflicts.push('request body');
+  }
+
+  if (first.responseMediaType === second.responseMediaType) {
+    const statusOf = ({ response }: { response: InteractionResponse }) => response.status || '200';
+    secondPayloads.responses.forEach(secondResponse => {
+      const status = statusOf(secondResponse);
+      const firstResponse = firstPayloads.responses.find(candidate => statusOf(candidate) === status);
+      if (firstResponse && bodiesDiffer(firstResponse, secondResponse)) {
+        conflicts.push(`response ${status} body`);
+      }
+    });
+  }
+
+  if (first.security?.length && second.security?.length &&
+      JSON.stringify(first.security) !== JSON.stringify(second.security)) {
+    conflicts.push('security');
+  }
+
+  return conflicts;
+};
@@ -0,0 +1,113 @@
+import type { MediaType, Operation, SchemaObject } from '@/types';
+import { areSchemasEqual } from './schemaGenerator';
+
+/**
+ * Adds the entries of `source` whose keys `target` does not define yet
+ */
+export const addMissing = <T>(target: Record<string, T> | undefined, source: Record<string, T>): Record<string, T> => {
+  const merged = { ...target };
+  Object.entries(source).forEach(([key, value]) => {
+    if (!(key in merged)) {
+      merged[key] = value;
+    }
+  });
+  return merged;
+};
+
+/**
+ * Checks for the empty object schema the generator uses for responses without a body
+ */
+const isPlaceholderSchema = (schema: SchemaObject): boolean =>
+  schema.type === 'object' && !schema.properties && !schema.$ref &&
+  (JSON.stringify(schema.example) === '{}' || JSON.stringify(schema.examples) === '[{}]');
+
+/**
+ * Merges media types into existing ones. Schemas that differ (ignoring examples)
+ * are not merged and make the function return false; placeholder schemas are
+ * replaced by real ones.
+ */
+const mergeContent = (target: Record<string, MediaType>, source: Record<string, MediaType>): boolean => {
+  const differs = Object.entries(source).some(([mediaType, { schema }]) => {
+    const existing = target[mediaType]?.schema;
+    return existing && schema && !isPlaceholderSchema(existing) && !isPlaceholderSchema(schema) &&
+      !areSchemasEqual(existing, schema);
+  });
+  if (differs) {
+    return false;
+  }
+
+  Object.entries(source).forEach(([mediaType, mediaTypeObject]) => {
+    const existing = target[mediaType]?.schema;
+    if (!existing || (isPlaceholderSchema(existing) && mediaTypeObject.schema)) {
+      target[mediaType] = mediaTypeObject;
+    }
+  });
+  return true;
+};
+
+/**
+ * Merges an operation into an existing definition of the same METHOD /path.
+ * Compatible operations are combined (parameters, responses and tags are unioned);
+ * differing summaries, request bodies, response bodies or security keep the
+ * existing definition and are returned as conflict descriptions.
+ */
+export const mergeOperation = (target: Operation, source: Operation, path: string): string[] => {
+  const conflicts: string[] = [];
+
+  // The generator's placeholder summary never conflicts with a written one
+  const placeholder = `Operation for ${path}`;
+  if (source.summary && source.summary !== placeholder) {
+    if (!target.summary || target.summary === placeholder) {
+      target.summary = source.summary;
+    } else if (source.summary !== target.summary) {
+      conflicts.push(`summary ("${target.summary}" vs "${source.summary}")`);
+    }
+  }
+  if (source.description && !target.description) {
+    target.description = source.description;
+  }
+
+  source.parameters?.forEach(parameter => {
+    const parameters = target.parameters || [];
+    if (!parameters.some(p => p.name === parameter.name && p.in === parameter.in)) {
+      target.parameters = [...parameters, parameter];
+    }
+  });
+
+  if (source.requestBody) {
+    if (!target.requestBody) {
+      target.requestBody = source.requestBody;
+    } else {
+      target.requestBody.content = target.requestBody.content || {};
+      if (!mergeContent(target.requestBody.content, source.requestBody.content || {})) {
+        conflicts.push('request body');
+      }
+    }
+  }
+
+  Object.entries(source.responses).forEach(([status, response]) => {
+    const existing = target.responses[status];
+    if (!existing) {
+      target.responses[status] = response;
+      return;
+    }
+    existing.content = existing.content || {};
+    if (!mergeContent(existing.content, response.content || {})) {
+      conflicts.push(`response ${status} body`);
+    }
+  });
+
+  if (source.tags) {
+    target.tags = Array.from(new Set([...(target.tags || []), ...source.tags]));
+  }
+
+  if (source.security) {
+    if (!target.security) {
+      target.security = source.security;
+    } else if (JSON.stringify(source.security) !== JSON.stringify(target.security)) {
+      conflicts.push('security');
+    }
+  }
+
+  return conflicts;
+};
@@ -1,48 +1,128 @@
-import type { SchemaObject } from '@/types';
+import type { GeneratorOptions, SchemaObject } from '@/types';
+import { parseSchemaDefinition } from '@/parser/schemaDefinition';
+import type { SchemaDefinition } from '@/parser/schemaDefinition';
+
+// String formats recognised in example values when format detection is on
+const STRING_FORMATS: [string, RegExp][] = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i],
+  ['date', /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z\d+.-]*:\/\/\S+$/i],
+  ['ipv4', /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/],
+  ['ipv6', /^(([0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|(([0-9a-f]{1,4}:){0,6}[0-9a-f]{1,4})?::(([0-9a-f]{1,4}:){0,6}[0-9a-f]{1,4})?)$/i]
+];
 
 /**
- * Parses schema from a value, handling explicit validation strings and auto-inference
+ * Guesses the format of a string example (`date-time`, `email`, `uuid`, ...), or
+ * returns undefined when it looks like plain text
  */
-export const parseSchemaFromValue = (value: unknown): { schema: SchemaObject; isRequired: boolean } => {
+export const detectStringFormat = (value: string): string | undefined =>
+  STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0];
+
+/**
+ * Reads an `enum:` or `default:` value as the definition's type: numbers for numeric
+ * types, booleans for boolean and null for nullable ones; anything else stays a string
+ */
+const parseLiteral = (raw: string, types: string[]): unknown => {
+  if ((types.includes('integer') || types.includes('number')) && raw !== '' && !Number.isNaN(Number(raw))) {
+    return Number(raw);
+  }
+  if (types.includes('boolean') && (raw === 'true' || raw === 'false')) {
+    return raw === 'true';
+  }
+  if (types.includes('null') && raw === 'null') {
+    return null;
+  }
+  return raw;
+};
+
+/**
+ * Builds the schema of a parsed definition: "string|null" is a nullable string and
+ * "integer|string" a oneOf of both types. Bounds, formats and patterns apply to each
+ * type; enum, default, example and access flags to the whole schema.
+ */
+const schemaFromDefinition = (parsed: SchemaDefinition): SchemaObject => {
+  const explicitTypes = [...new Set(parsed.types.filter(type => type !== 'null'))];
+  const variants: SchemaObject[] = (explicitTypes.length > 0 ? explicitTypes : ['string']).map(type => ({ type }));
+  const definition: SchemaObject = variants.length === 1 ? variants[0] : { oneOf: variants };
+  const literalTypes = parsed.types.length > 0 ? parsed.types : ['string'];
+  if (parsed.types.includes('null')) {
+    definition.nullable = true;
+  }
+
+  Object.entries(parsed.options).forEach(([name, optionValue]) => {
+    switch (name) {
+      case 'min':
+      case 'max':
+        variants.forEach(variant => {
+          const keyword = variant.type === 'string'
+            ? (name === 'min' ? 'minLength' : 'maxLength')
+            : (name === 'min' ? 'minimum' : 'maximum');
+          variant[keyword] = Number(optionValue);
+        });
+        break;
+      case 'multipleOf':
+      case 'minItems':
+      case 'maxItems':
+        variants.forEach(variant => { variant[name] = Number(optionValue); });
+        break;
+      case 'format':
+      case 'pattern':
+        variants.forEach(variant => { variant[name] = optionValue; });
+        break;
+      case 'example':
+        definition.example = optionValue;
+        break;
+      case 'enum':
+        definition.enum = (parsed.enumValues || []).map(item => parseLiteral(item, literalTypes));
+        break;
+      case 'default':
+        definition.default = parseLiteral(optionValue, literalTypes);
+        break;
+    }
+  });
+
+  if (parsed.flags.includes('uniqueItems')) {
+    variants.forEach(variant => { variant.uniqueItems = true; });
+  }
+  if (parsed.flags.includes('readOnly')) {
+    definition.readOnly = true;
+  }
+  if (parsed.flags.includes('writeOnly')) {
+    definition.writeOnly = true;
+  }
+  return definition;
+};
+
+/**
+ * Checks whether a value holds a definition string at any depth
+ */
+const containsDefinition = (value: unknown): boolean => {
+  if (typeof value === 'string') {
+    return parseSchemaDefinition(value) !== undefined;
+  }
+  return typeof value === 'object' && value !== null && Object.values(value).some(containsDefinition);
+};
+
+/**
+ * Parses schema from a value, handling explicit validation strings and auto-inference.
+ * With `detectFormats`, string examples also get a format guessed from their value.
+ */
+export const parseSchemaFromValue = (value: unknown, options: GeneratorOptions = {}): { schema: SchemaObject; isRequired: boolean } => {
   const schema: SchemaObject = { type: 'string' };
-  let isRequired = false;
 
   // 1. Handle Explicit Validation Strings
-  if (typeof value === 'string') {
-    const parts = value.split(',').map(s => s.trim());
-    const validTypes = ['string', 'integer', 'number', 'boolean', 'array', 'object'];
-
-    const explicitType = validTypes.includes(parts[0]) ? parts[0] : null;
-    const isDefinition = explicitType || parts.some(p => p === 'required' || p.includes(':'));
-
-    if (isDefinition) {
-      schema.type = explicitType || 'string';
-      parts.forEach(part => {
-        if (part === 'required') isRequired = true;
-        else if (part.startsWith('min:')) {
-          const val = Number(part.split(':')[1]);
-          if (schema.type === 'string') schema.minLength = val;
-          else schema.minimum = val;
-        }
-        else if (part.startsWith('max:')) {
-          const val = Number(part.split(':')[1]);
-          if (schema.type === 'string') schema.maxLength = val;
-          else schema.maximum = val;
-        }
-        else if (part.startsWith('format:')) {
-          schema.format = part.split(':')[1];
-        }
-        else if (part.startsWith('example:')) {
-          schema.example = part.split(':')[1];
-        }
-      });
-      return { schema, isRequired };
-    }
+  const parsed = typeof value === 'string' ? parseSchemaDefinition(value) : undefined;
+  if (parsed) {
+    return { schema: schemaFromDefinition(parsed), isRequired: parsed.flags.includes('required') };
   }
 
   // 2. Auto-Inference
   if (value === null) {
-    schema.type = 'string';
+    // A lone null does not tell the type, and `nullable` needs one in OpenAPI 3.0,
+    // so the schema stays untyped in both versions
+    return { schema: { description: 'Type unknown, the example value is null' }, isRequired: false };
   } else if (typeof value === 'number') {
     schema.type = Number.isInteger(value) ? 'integer' : 'number';
     schema.example = value;
@@ -51,42 +131,44 @@ export const parseSchemaFromValue = (value: unknown): { schema: SchemaObject; is
     schema.example = value;
   } else if (Array.isArray(value)) {
     schema.type = 'array';
-    if (value.length > 0) {
-      const firstItem = value[0];
-      if (typeof firstItem === 'object' && firstItem !== null && !Array.isArray(firstItem)) {
-        // For array of objects, recursively generate schema
-        schema.items = generateSchema(firstItem as Record<string, unknown>);
-      } else {
-        schema.items = parseSchemaFromValue(firstItem).schema;
-      }
-    } else {
-      schema.items = { type: 'string' };
+    // The item schema describes every element, not just the first
+    schema.items = value.length > 0 ? inferSchemaFromValues(value, options) : { type: 'string' };
+    // Definition strings such as "string" describe the items, they are no example values
+    if (!containsDefinition(value)) {
+      schema.example = value;
     }
-    schema.example = value;
   } else if (typeof value === 'object') {
     schema.type = 'object';
   } else {
     schema.type = 'string';
+    const format = options.detectFormats && typeof value === 'string' ? detectStringFormat(value) : undefined;
+    if (format) {
+      schema.format = format;
+    }
     schema.example = value;
   }
 
-  return { schema, isRequired };
+  return { schema, isRequired: false };
 };
 
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
 /**
- * Generates a schema object from a JSON object
+ * Generates one object schema for several JSON objects (e.g. the elements of an array):
+ * the union of their properties, each inferred from all of its values. A property
+ * stays required only when every object has it.
  */
-export const generateSchema = (jsonObj: Record<string, unknown>): SchemaObject => {
+const mergeObjectSchemas = (objects: Record<string, unknown>[], options: GeneratorOptions): SchemaObject => {
   const properties: Record<string, SchemaObject> = {};
   const requiredFields: string[] = [];
+  const keys = [...new Set(objects.flatMap(object => Object.keys(object)))];
 
-  for (const [key, value] of Object.entries(jsonObj)) {
-    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      properties[key] = generateSchema(value as Record<string, unknown>);
-    } else {
-      const { schema, isRequired } = parseSchemaFromValue(value);
-      properties[key] = schema;
-      if (isRequired) requiredFields.push(key);
+  for (const key of keys) {
+    const values = objects.filter(object => Object.hasOwn(object, key)).map(object => object[key]);
+    properties[key] = inferSchemaFromValues(values, options);
+    if (values.length === objects.length && values.every(value => parseSchemaFromValue(value).isRequired)) {
+      requiredFields.push(key);
     }
   }
 
@@ -101,3 +183,107 @@ export const generateSchema = (jsonObj: Record<string, unknown>): SchemaObject =
 
   return result;
 };
+
+/**
+ * Infers one schema describing several values (the elements of an array or the values
+ * of a property across them): objects merge their properties, arrays their elements,
+ * integers mixed with other numbers become `number`, and other mixed types a `oneOf`.
+ * Nulls make the result nullable. Examples come from the first value of each type.
+ */
+const inferSchemaFromValues = (values: unknown[], options: GeneratorOptions): SchemaObject => {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) {
+    return parseSchemaFromValue(null).schema;
+  }
+  const isNullable = present.length < values.length;
+
+  const variants: SchemaObject[] = [];
+
+  const objects = present.filter(isPlainObject);
+  if (objects.length > 0) {
+    variants.push(mergeObjectSchemas(objects, options));
+  }
+
+  const arrays = present.filter(Array.isArray);
+  if (arrays.length > 0) {
+    const { schema } = parseSchemaFromValue(arrays[0], options);
+    const elements = arrays.flat();
+    if (elements.length > 0) {
+      schema.items = inferSchemaFromValues(elements, options);
+    }
+    variants.push(schema);
+  }
+
+  // Scalars (and definition strings such as "integer, min:1") grouped by type
+  const scalarSchemas = new Map<string, SchemaObject>();
+  present.filter(value => typeof value !== 'object').forEach(value => {
+    const { schema } = parseSchemaFromValue(value, options);
+    const existing = scalarSchemas.get(schema.type as string);
+    if (!existing) {
+      scalarSchemas.set(schema.type as string, schema);
+    } else if (options.detectFormats && existing.format !== schema.format) {
+      // A detected format only holds when every value has it
+      delete existing.format;
+    }
+  });
+  if (scalarSchemas.has('integer') && scalarSchemas.has('number')) {
+    scalarSchemas.delete('integer');
+  }
+  variants.push(...scalarSchemas.values());
+
+  const result = variants.length === 1 ? variants[0] : { oneOf: variants };
+  if (isNullable) {
+    result.nullable = true;
+  }
+  return result;
+};
+
+/**
+ * Generates a schema object from a JSON object
+ */
+export const generateSchema = (jsonObj: Record<string, unknown>, options: GeneratorOptions = {}): SchemaObject =>
+  mergeObjectSchemas([jsonObj], options);
+
+/**
+ * Generates a schema from an inline JSON payload (objects, arrays or primitives)
+ */
+export const generateBodySchema = (body: unknown, options: GeneratorOptions = {}): SchemaObject => {
+  if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+    return generateSchema(body as Record<string, unknown>, options);
+  }
+  return parseSchemaFromValue(body, options).schema;
+};
+
+/**
+ * Removes example values from a schema for comparison purposes
+ */
+export const removeExamples = (schema: SchemaObject): SchemaObject => {
+  const copy = { ...schema };
+  delete copy.example;
+  delete copy.examples;
+  if (copy.properties) {
+    copy.properties = Object.fromEntries(
+      Object.entries(copy.properties).map(([key, value]) => [key, removeExamples(value)])
+    );
+  }
+  if (copy.items) {
+    copy.items = removeExamples(copy.items);
+  }
+  if (copy.oneOf) {
+    copy.oneOf = copy.oneOf.map(removeExamples);
+  }
+  if (copy.anyOf) {
+    copy.anyOf = copy.anyOf.map(removeExamples);
+  }
+  if (copy.allOf) {
+    copy.allOf = copy.allOf.map(removeExamples);
+  }
+  return copy;
+};
+
+/**
+ * Checks if two schemas are identical (ignoring example values)
+ */
+export const areSchemasEqual = (schema1: SchemaObject, schema2: SchemaObject): boolean => {
+  return JSON.stringify(removeExamples(schema1)) === JSON.stringify(removeExamples(schema2));
+};
@@ -0,0 +1,221 @@
+import type {
+  GeneratorOptions,
+  MermaidAST,
+  MultiSpecDocs,
+  OpenApiDoc,
+  PathItem,
+  SchemaObject,
+  SpecMergeResult,
+  ValidationError
+} from '@/types';
+import { generateOpenApiSpecs, hoistSharedSecurity } from './openapiGenerator';
+import { areSchemasEqual } from './schemaGenerator';
+import { mergeOperation } from './operationMerger';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Rewrites `#/components/schemas/` references in place using a name mapping
+ */
+const renameSchemaRefs = (value: unknown, renames: Map<string, string>): void => {
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach(item => renameSchemaRefs(item, renames));
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.$ref === 'string' && record.$ref.startsWith(SCHEMA_REF_PREFIX)) {
+    const renamed = renames.get(record.$ref.slice(SCHEMA_REF_PREFIX.length));
+    if (renamed) {
+      record.$ref = `${SCHEMA_REF_PREFIX}${renamed}`;
+    }
+  }
+  Object.values(record).forEach(child => renameSchemaRefs(child, renames));
+};
+
+/**
+ * Moves the schema components of `source` into `target`. Schemas equal to an
+ * existing component (ignoring examples) reuse it, and name clashes between
+ * different schemas get a numbered name; references in `source` are updated.
+ */
+const mergeSchemaComponents = (target: OpenApiDoc, source: OpenApiDoc): void => {
+  const sourceSchemas = source.components?.schemas;
+  if (!sourceSchemas) {
+    return;
+  }
+
+  const targetSchemas: Record<string, SchemaObject> = target.components?.schemas || {};
+  const renames = new Map<string, string>();
+  const added: string[] = [];
+
+  Object.entries(sourceSchemas).forEach(([name, schema]) => {
+    renameSchemaRefs(schema, renames);
+
+    const existing = Object.entries(targetSchemas).find(([, candidate]) => areSchemasEqual(schema, candidate));
+    if (existing) {
+      renames.set(name, existing[0]);
+      return;
+    }
+
+    let mergedName = name;
+    let counter = 1;
+    while (targetSchemas[mergedName]) {
+      mergedName = `${name}${counter}`;
+      counter++;
+    }
+    if (mergedName !== name) {
+      renames.set(name, mergedName);
+    }
+    targetSchemas[mergedName] = schema;
+    added.push(mergedName);
+  });
+
+  // Schemas may reference components that were renamed after them
+  added.forEach(name => renameSchemaRefs(targetSchemas[name], renames));
+  renameSchemaRefs(source.paths, renames);
+  renameSchemaRefs(source.webhooks, renames);
+
+  target.components = { ...target.components, schemas: targetSchemas };
+};
+
+/**
+ * Copies the document-level security of a spec into every operation without its own,
+ * so operations keep their requirements when merged with another spec's
+ */
+const lowerSharedSecurity = (spec: OpenApiDoc): void => {
+  if (!spec.security) {
+    return;
+  }
+  [...Object.values(spec.paths), ...Object.values(spec.webhooks || {})].forEach(pathItem => {
+    Object.values(pathItem).forEach(operation => {
+      operation.security = operation.security || structuredClone(spec.security);
+    });
+  });
+  delete spec.security;
+};
+
+/**
+ * Labels used in conflict messages to say which input defined what
+ */
+const sourceLabel = (sources: string[] | undefined, index: number): string =>
+  sources?.[index] ?? `document ${index + 1}`;
+
+/**
+ * Merges several multi-spec results (e.g. one per diagram) into one spec per server.
+ * Paths and webhooks are unioned, equal schema components are deduplicated and
+ * conflicting operations or security schemes are reported as errors; the first
+ * definition is kept. Document-level security applies to the operations of its own
+ * input and is only kept on the merged spec when all operations share it.
+ *
+ * @param docs - The multi-spec results to merge, in priority order
+ * @param sources - Optional names of the inputs (e.g. file names) for error contexts
+ */
+export function mergeMultiSpecDocs(docs: MultiSpecDocs[], sources?: string[]): SpecMergeResult {
+  const specs: MultiSpecDocs = {};
+  const errors: ValidationError[] = [];
+  // Which input first defined each operation and security scheme
+  const origins = new Map<string, number>();
+
+  docs.forEach((doc, index) => {
+    Object.entries(doc).forEach(([server, original]) => {
+      const spec = structuredClone(original);
+      lowerSharedSecurity(spec);
+      const target = specs[server];
+
+      const recordOrigins = (pathItems: Record<string, PathItem> | undefined, kind: string) => {
+        Object.entries(pathItems || {}).forEach(([path, pathItem]) => {
+          Object.keys(pathItem).forEach(method => {
+            const key = `${server} ${kind} ${method} ${path}`;
+            if (!origins.has(key)) {
+              origins.set(key, index);
+            }
+          });
+        });
+      };
+
+      if (!target) {
+        specs[server] = spec;
+        recordOrigins(spec.paths, 'path');
+        recordOrigins(spec.webhooks, 'webhook');
+        Object.keys(spec.components?.securitySchemes || {}).forEach(name => {
+          origins.set(`${server} securityScheme ${name}`, index);
+        });
+        return;
+      }
+
+      mergeSchemaComponents(target, spec);
+
+      const mergePathItems = (targetItems: Record<string, PathItem>, sourceItems: Record<string, PathItem>, kind: string) => {
+        Object.entries(sourceItems).forEach(([path, pathItem]) => {
+          const targetItem = targetItems[path] || (targetItems[path] = {});
+          Object.entries(pathItem).forEach(([method, operation]) => {
+            if (!targetItem[method]) {
+              targetItem[method] = operation;
+              return;
+            }
+            const operationName = `${method.toUpperCase()} ${path}`;
+            mergeOperation(targetItem[method], operation, path).forEach(conflict => {
+              const origin = origins.get(`${server} ${kind} ${method} ${path}`) ?? 0;
+              errors.push({
+                source: 'openapi',
+                severity: 'error',
+                message: `Conflicting ${conflict} for ${kind === 'webhook' ? 'webhook ' : ''}${operationName}`,
+                context: `${server}: ${sourceLabel(sources, origin)} and ${sourceLabel(sources, index)}`,
+                suggestion: 'Make the diagrams describe the operation the same way, or keep it in a single diagram',
+              });
+            });
+          });
+        });
+        recordOrigins(sourceItems, kind);
+      };
+
+      mergePathItems(target.paths, spec.paths, 'path');
+      if (spec.webhooks) {
+        target.webhooks = target.webhooks || {};
+        mergePathItems(target.webhooks, spec.webhooks, 'webhook');
+      }
+
+      Object.entries(spec.components?.securitySchemes || {}).forEach(([name, scheme]) => {
+        target.components = target.components || {};
+        const schemes = target.components.securitySchemes || (target.components.securitySchemes = {});
+        if (!schemes[name]) {
+          schemes[name] = scheme;
+          origins.set(`${server} securityScheme ${name}`, index);
+        } else if (JSON.stringify(schemes[name]) !== JSON.stringify(scheme)) {
+          const origin = origins.get(`${server} securityScheme ${name}`) ?? 0;
+          errors.push({
+            source: 'openapi',
+            severity: 'error',
+            message: `Conflicting security scheme "${name}"`,
+            context: `${server}: ${sourceLabel(sources, origin)} and ${sourceLabel(sources, index)}`,
+            suggestion: 'Give differing security schemes different names',
+          });
+        }
+      });
+
+      if (spec.tags) {
+        const tagNames = new Set((target.tags || []).map(tag => tag.name));
+        target.tags = [...(target.tags || []), ...spec.tags.filter(tag => !tagNames.has(tag.name))];
+      }
+    });
+  });
+
+  // Security shared by every merged operation becomes the document default again
+  Object.values(specs).forEach(hoistSharedSecurity);
+
+  return { specs, errors };
+}
+
+/**
+ * Generates specs for several diagrams and merges them into one spec per server
+ *
+ * @param asts - Parsed diagrams, in priority order
+ * @param options - Generator options applied to every diagram
+ * @param sources - Optional names of the diagrams for error contexts
+ */
+export function mergeDiagrams(asts: MermaidAST[], options: GeneratorOptions = {}, sources?: string[]): SpecMergeResult {
+  return mergeMultiSpecDocs(asts.map(ast => generateOpenApiSpecs(ast, options)), sources);
+}
@@ -0,0 +1,411 @@
+import type {
+  Discriminator,
+  MultiSpecDocs,
+  OpenApiDoc,
+  Operation,
+  Parameter,
+  SchemaObject,
+  SecurityScheme,
+  MediaType,
+  SwaggerDoc,
+  SwaggerExport,
+  SwaggerExportOptions,
+  SwaggerOperation,
+  SwaggerParameter,
+  SwaggerParameterKeyword,
+  SwaggerResponse,
+  SwaggerSchema,
+  SwaggerSecurityScheme,
+  ValidationError
+} from '@/types';
+
+// Swagger 2.0 sends these media types as formData parameters instead of a body parameter
+const FORM_MEDIA_TYPES = new Set(['application/x-www-form-urlencoded', 'multipart/form-data']);
+
+// Schema keywords a non-body parameter carries inline in Swagger 2.0
+const PARAMETER_KEYWORDS: SwaggerParameterKeyword[] = [
+  'type', 'format', 'items', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'multipleOf',
+  'minItems', 'maxItems', 'uniqueItems', 'enum', 'default'
+];
+
+// OpenAPI 3 OAuth flow names and their Swagger 2.0 equivalents
+const OAUTH_FLOWS = {
+  implicit: 'implicit',
+  password: 'password',
+  clientCredentials: 'application',
+  authorizationCode: 'accessCode'
+} as const;
+
+/**
+ * Creates an export warning for a construct Swagger 2.0 cannot represent
+ */
+const unrepresentable = (message: string, context: string, suggestion?: string): ValidationError => ({
+  source: 'openapi',
+  severity: 'warning',
+  message,
+  context,
+  suggestion
+});
+
+/**
+ * Converts an OpenAPI 3 schema (3.0 or 3.1 flavour) to a Swagger 2.0 schema.
+ * Component references are redirected to `#/definitions/`.
+ */
+const convertSchema = (schema: SchemaObject, context: string, warnings: ValidationError[]): SwaggerSchema => {
+  const converted: SwaggerSchema = {};
+
+  Object.entries(schema).forEach(([key, value]) => {
+    switch (key) {
+      case '$ref':
+        converted.$ref = (value as string).replace('#/components/schemas/', '#/definitions/');
+        break;
+      case 'type': {
+        if (!Array.isArray(value)) {
+          converted.type = value as string;
+          break;
+        }
+        // 3.1 type arrays keep their first non-null type
+        const types = (value as string[]).filter(type => type !== 'null');
+        if (types.length > 1) {
+          warnings.push(unrepresentable(`Schema type [${value.join(', ')}] cannot be represented in Swagger 2.0`, context, `Only "${types[0]}" is kept`));
+        }
+        if (types[0]) {
+          converted.type = types[0];
+        }
+        if (types.length < value.length) {
+          converted['x-nullable'] = true;
+        }
+        break;
+      }
+      case 'writeOnly':
+        if (value) {
+          warnings.push(unrepresentable('"writeOnly" cannot be represented in Swagger 2.0', context, 'The property is documented in responses too'));
+        }
+        break;
+      case 'nullable':
+        if (value) {
+          converted['x-nullable'] = true;
+        }
+        break;
+      case 'examples':
+        if (Array.isArray(value) && value.length > 0 && schema.example === undefined) {
+          converted.example = value[0];
+        }
+        break;
+      case 'properties':
+        converted.properties = Object.fromEntries(
+          Object.entries(value as Record<string, SchemaObject>).map(([name, property]) => [
+            name,
+            convertSchema(property, `${context}.${name}`, warnings)
+          ])
+        );
+        break;
+      case 'items':
+        converted.items = convertSchema(value as SchemaObject, `${context}[]`, warnings);
+        break;
+      case 'oneOf':
+      case 'anyOf': {
+        // Swagger 2.0 has no alternatives; the first variant describes the value
+        const [first] = value as SchemaObject[];
+        warnings.push(unrepresentable(`"${key}" cannot be represented in Swagger 2.0`, context, 'Only the first variant is kept'));
+        if (first) {
+          Object.assign(converted, convertSchema(first, context, warnings));
+        }
+        break;
+      }
+      case 'allOf':
+        converted.allOf = (value as SchemaObject[]).map((part, index) => convertSchema(part, `${context}.allOf[${index}]`, warnings));
+        break;
+      case 'discriminator':
+        // Swagger 2.0 discriminators name the property only
+        converted.discriminator = (value as Discriminator).propertyName;
+        if ((value as Discriminator).mapping) {
+          warnings.push(unrepresentable('Discriminator mappings cannot be represented in Swagger 2.0', context, 'Name the definitions after the discriminator values'));
+        }
+        break;
+      default:
+        (converted as Record<string, unknown>)[key] = value;
+    }
+  });
+
+  return converted;
+};
+
+/**
+ * Converts a path, query or header parameter; Swagger 2.0 describes their type inline
+ */
+const convertParameter = (parameter: Parameter, context: string, warnings: ValidationError[]): SwaggerParameter | null => {
+  if (parameter.in === 'cookie') {
+    warnings.push(unrepresentable(`Cookie parameter "${parameter.name}" cannot be represented in Swagger 2.0`, context, 'Send the value in a header or query parameter instead'));
+    return null;
+  }
+
+  const schema = convertSchema(parameter.schema, `${context} - parameter ${parameter.name}`, warnings);
+  const converted: SwaggerParameter = { name: parameter.name, in: parameter.in };
+  if (parameter.required) {
+    converted.required = true;
+  }
+
+  if (schema.$ref || schema.properties || schema.type === 'object') {
+    warnings.push(unrepresentable(`Parameter "${parameter.name}" uses an object schema, which Swagger 2.0 only allows in a body`, context, 'The parameter is exported as a string'));
+    converted.type = 'string';
+    return converted;
+  }
+
+  const keywords: Pick<SwaggerSchema, SwaggerParameterKeyword> = converted;
+  PARAMETER_KEYWORDS.forEach(<K extends SwaggerParameterKeyword>(keyword: K) => {
+    if (schema[keyword] !== undefined) {
+      keywords[keyword] = schema[keyword];
+    }
+  });
+  return converted;
+};
+
+/**
+ * Converts a request body to a body parameter, or to formData parameters for form media types
+ */
+const convertRequestBody = (
+  content: Record<string, MediaType>,
+  required: boolean,
+  context: string,
+  warnings: ValidationError[]
+): SwaggerParameter[] => {
+  const [mediaType, { schema } = {}] = Object.entries(content)[0] || [];
+  if (!mediaType) {
+    return [];
+  }
+
+  if (Object.keys(content).length > 1) {
+    warnings.push(unrepresentable('Multiple request body media types cannot have separate schemas in Swagger 2.0', context, `The "${mediaType}" schema is used for all of them`));
+  }
+
+  if (FORM_MEDIA_TYPES.has(mediaType) && schema?.properties) {
+    return Object.entries(schema.properties).map(([name, property]) => {
+      const required = schema.required?.includes(name) || false;
+      const parameter = convertParameter({ name, in: 'query', required, schema: property }, context, warnings)!;
+      return { ...parameter, in: 'formData' };
+    });
+  }
+
+  const parameter: SwaggerParameter = {
+    name: 'body',
+    in: 'body',
+    schema: convertSchema(schema || { type: 'object' }, `${context} - request body`, warnings)
+  };
+  if (required) {
+    parameter.required = true;
+  }
+  return [parameter];
+};
+
+/**
+ * Converts an operation; media types move to `consumes`/`produces`
+ */
+const convertOperation = (operation: Operation, context: string, warnings: ValidationError[]): SwaggerOperation => {
+  const { parameters, requestBody, responses, ...rest } = operation;
+  const converted: SwaggerOperation = { ...rest, responses: {} };
+
+  const swaggerParameters = (parameters || [])
+    .map(parameter => convertParameter(parameter, context, warnings))
+    .filter((parameter): parameter is SwaggerParameter => parameter !== null);
+
+  if (requestBody?.content) {
+    converted.consumes = Object.keys(requestBody.content);
+    swaggerParameters.push(...convertRequestBody(requestBody.content, !!requestBody.required, context, warnings));
+  }
+
+  if (swaggerParameters.length > 0) {
+    converted.parameters = swaggerParameters;
+  }
+
+  const produces = new Set<string>();
+  Object.entries(responses).forEach(([status, response]) => {
+    const swaggerResponse: SwaggerResponse = { description: response.description };
+    const mediaTypes = Object.entries(response.content || {});
+
+    mediaTypes.forEach(([mediaType, { schema, example: singleExample, examples }], index) => {
+      produces.add(mediaType);
+      if (index === 0 && schema) {
+        swaggerResponse.schema = convertSchema(schema, `${context} - ${status}`, warnings);
+      }
+      // Swagger 2.0 has one example per media type, so only the first named example is kept
+      const example = singleExample ?? (Object.values(examples || {})[0] as { value?: unknown } | undefined)?.value;
+      if (example !== undefined) {
+        swaggerResponse.examples = { ...swaggerResponse.examples, [mediaType]: example };
+      }
+    });
+
+    if (mediaTypes.length > 1) {
+      warnings.push(unrepresentable(`Response ${status} has several media types, which share one schema in Swagger 2.0`, context, `The "${mediaTypes[0][0]}" schema is used for all of them`));
+    }
+
+    converted.responses[status] = swaggerResponse;
+  });
+
+  if (produces.size > 0) {
+    converted.produces = Array.from(produces);
+  }
+
+  return converted;
+};
+
+/**
+ * Converts a security scheme; returns null when Swagger 2.0 has no equivalent
+ */
+const convertSecurityScheme = (
+  name: string,
+  scheme: SecurityScheme,
+  warnings: ValidationError[]
+): SwaggerSecurityScheme | null => {
+  const context = `securitySchemes.${name}`;
+  const description = scheme.description ? { description: scheme.description } : {};
+
+  if (scheme.type === 'http' && scheme.scheme === 'basic') {
+    return { type: 'basic', ...description };
+  }
+
+  if (scheme.type === 'http') {
+    warnings.push(unrepresentable(`HTTP "${scheme.scheme}" authentication cannot be represented in Swagger 2.0`, context, 'It is exported as an Authorization header API key'));
+    return { type: 'apiKey', name: 'Authorization', in: 'header', ...description };
+  }
+
+  if (scheme.type === 'apiKey') {
+    return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+  }
+
+  if (scheme.type === 'oauth2' && scheme.flows) {
+    const flowNames = (Object.keys(OAUTH_FLOWS) as (keyof typeof OAUTH_FLOWS)[]).filter(flow => scheme.flows![flow]);
+    if (flowNames.length === 0) {
+      return null;
+    }
+    if (flowNames.length > 1) {
+      warnings.push(unrepresentable('Swagger 2.0 supports a single OAuth2 flow per security scheme', context, `Only the "${flowNames[0]}" flow is kept`));
+    }
+
+    const flow = scheme.flows[flowNames[0]]!;
+    const converted: SwaggerSecurityScheme = { type: 'oauth2', ...description, flow: OAUTH_FLOWS[flowNames[0]] };
+    if (flow.authorizationUrl) {
+      converted.authorizationUrl = flow.authorizationUrl;
+    }
+    if (flow.tokenUrl) {
+      converted.tokenUrl = flow.tokenUrl;
+    }
+    converted.scopes = flow.scopes || {};
+    return converted;
+  }
+
+  warnings.push(unrepresentable(`Security scheme "${name}" (${scheme.type}) cannot be represented in Swagger 2.0`, context, 'It is removed along with the requirements that use it'));
+  return null;
+};
+
+/**
+ * Converts an OpenAPI 3 document to Swagger 2.0.
+ * Constructs without a Swagger 2.0 equivalent are dropped or approximated and
+ * reported as warnings.
+ *
+ * @param spec - The OpenAPI document to convert
+ * @param options - Values for `host`, `basePath` and `schemes`, which OpenAPI 3 keeps in `servers`
+ * @returns The Swagger 2.0 document and the export warnings
+ */
+export function convertToSwagger(
+  spec: OpenApiDoc,
+  options: SwaggerExportOptions = {}
+): { spec: SwaggerDoc; warnings: ValidationError[] } {
+  const warnings: ValidationError[] = [];
+  const swagger: SwaggerDoc = {
+    swagger: '2.0',
+    info: spec.info,
+    ...(options.host ? { host: options.host } : {}),
+    basePath: options.basePath || '/',
+    schemes: options.schemes || ['https'],
+    paths: {}
+  };
+
+  if (spec.tags) {
+    swagger.tags = spec.tags;
+  }
+
+  Object.entries(spec.paths).forEach(([path, pathItem]) => {
+    swagger.paths[path] = Object.fromEntries(
+      Object.entries(pathItem).map(([method, operation]) => [
+        method,
+        convertOperation(operation, `${path} (${method})`, warnings)
+      ])
+    );
+  });
+
+  if (spec.webhooks && Object.keys(spec.webhooks).length > 0) {
+    warnings.push(unrepresentable('Webhooks cannot be represented in Swagger 2.0', Object.keys(spec.webhooks).join(', '), 'Document them as operations of the receiving service instead'));
+  }
+
+  if (spec.components?.schemas) {
+    swagger.definitions = Object.fromEntries(
+      Object.entries(spec.components.schemas).map(([name, schema]) => [
+        name,
+        convertSchema(schema, `#/definitions/${name}`, warnings)
+      ])
+    );
+  }
+
+  const removedSchemes = new Set<string>();
+  if (spec.components?.securitySchemes) {
+    const securityDefinitions: Record<string, SwaggerSecurityScheme> = {};
+    Object.entries(spec.components.securitySchemes).forEach(([name, scheme]) => {
+      const converted = convertSecurityScheme(name, scheme, warnings);
+      if (converted) {
+        securityDefinitions[name] = converted;
+      } else {
+        removedSchemes.add(name);
+      }
+    });
+    if (Object.keys(securityDefinitions).length > 0) {
+      swagger.securityDefinitions = securityDefinitions;
+    }
+  }
+
+  if (spec.security) {
+    swagger.security = spec.security;
+  }
+
+  // Drop requirements that point at schemes Swagger 2.0 could not represent
+  if (removedSchemes.size > 0) {
+    const dropRemovedSchemes = (owner: SwaggerDoc | SwaggerOperation) => {
+      if (!owner.security) {
+        return;
+      }
+      owner.security = owner.security.filter(requirement =>
+        Object.keys(requirement).every(name => !removedSchemes.has(name))
+      );
+      if (owner.security.length === 0) {
+        delete owner.security;
+      }
+    };
+    dropRemovedSchemes(swagger);
+    Object.values(swagger.paths).forEach(pathItem => {
+      Object.values(pathItem).forEach(dropRemovedSchemes);
+    });
+  }
+
+  return { spec: swagger, warnings };
+}
+
+/**
+ * Converts every spec of a multi-spec result to Swagger 2.0.
+ * Warnings are prefixed with the server name, like multi-spec validation results.
+ */
+export function generateSwaggerSpecs(specs: MultiSpecDocs, options: SwaggerExportOptions = {}): SwaggerExport {
+  const result: SwaggerExport = { specs: {}, warnings: [] };
+
+  Object.entries(specs).forEach(([server, spec]) => {
+    const { spec: swagger, warnings } = convertToSwagger(spec, options);
+    result.specs[server] = swagger;
+    warnings.forEach(warning => {
+      result.warnings.push({
+        ...warning,
+        context: warning.context ? `${server}: ${warning.context}` : server
+      });
+    });
+  });
+
+  return result;
+}
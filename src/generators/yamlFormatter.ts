@@ -1,7 +1,183 @@
+// Strings starting with an indicator character or whitespace cannot be plain scalars
+const INDICATOR_START = /^[-?:,[\]{}#&*!|>'"%@`\s]/;
+// Plain scalars a YAML 1.1 or 1.2 parser would read as null, booleans, numbers or dates
+const NON_STRING_PLAIN = /^(?:~|null|true|false|yes|no|y|n|on|off|<<|=)$|^[-+]?\.?\d|^[-+]?\.(?:inf|nan)$/i;
+// Sequences that end a plain scalar or start a comment
+const PLAIN_BREAKING = /: |:$| #|[\t\n\r]/;
+// Characters JSON.stringify leaves unescaped that YAML only allows escaped
+const NON_PRINTABLE_ESCAPED = /[\u007f-\u009f\u2028\u2029\ufeff\ufffe\uffff]/g;
+// Single-line strings longer than this are folded over several lines
+const LINE_WIDTH = 80;
+
+const pad = (indent: number): string => '  '.repeat(indent);
+
+/**
+ * Checks for characters YAML only allows escaped: controls other than tab and line
+ * breaks, DEL, C1 controls, BOM, non-characters, lone surrogates and the Unicode line
+ * separators (NEL and U+2028/2029 are line breaks in YAML 1.1)
+ */
+const hasNonPrintable = (value: string): boolean =>
+  [...value].some(char => {
+    const code = char.codePointAt(0)!;
+    return (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) ||
+      (code >= 0x7f && code <= 0x9f) ||
+      (code >= 0xd800 && code <= 0xdfff) ||
+      [0x2028, 0x2029, 0xfeff, 0xfffe, 0xffff].includes(code);
+  });
+
+/**
+ * Checks whether a string would be read back as a different value (or fail to parse)
+ * when written as a plain scalar
+ */
+const needsQuotes = (value: string): boolean =>
+  value === '' ||
+  INDICATOR_START.test(value) ||
+  /\s$/.test(value) ||
+  PLAIN_BREAKING.test(value) ||
+  NON_STRING_PLAIN.test(value) ||
+  hasNonPrintable(value);
+
 /**
- * Converts a JavaScript object to YAML format.
+ * Writes a double-quoted scalar. JSON escapes are valid YAML escapes; characters JSON
+ * leaves as they are but YAML does not allow unescaped are escaped as well.
+ */
+const doubleQuote = (value: string): string =>
+  JSON.stringify(value).replace(
+    NON_PRINTABLE_ESCAPED,
+    char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+
+/**
+ * Writes a multi-line string as a literal block scalar. The chomping indicator keeps
+ * the exact number of trailing line breaks.
+ */
+const literalBlock = (value: string, indent: number): string => {
+  const trailingBreaks = value.length - value.replace(/\n+$/, '').length;
+  const chomping = trailingBreaks === 0 ? '-' : trailingBreaks === 1 ? '' : '+';
+  const lines = (trailingBreaks > 0 ? value.slice(0, -1) : value).split('\n');
+
+  return `|${chomping}\n${lines.map(line => (line ? `${pad(indent)}${line}\n` : '\n')).join('')}`;
+};
+
+/**
+ * Splits a single-line string into lines of at most LINE_WIDTH characters where it can.
+ * Lines only break at a single space between two other characters, which a folded
+ * block scalar reads back as that space; longer words stay on one line.
+ */
+const foldLines = (value: string): string[] => {
+  const lines: string[] = [];
+  const breaks = [...value.matchAll(/(?<=\S) (?=\S)/g)].map(match => match.index!);
+  let start = 0;
+  let lastBreak = -1;
+
+  [...breaks, value.length].forEach(position => {
+    if (position - start > LINE_WIDTH && lastBreak > start) {
+      lines.push(value.slice(start, lastBreak));
+      start = lastBreak + 1;
+    }
+    lastBreak = position;
+  });
+  lines.push(value.slice(start));
+  return lines;
+};
+
+/**
+ * Formats a string as a plain or double-quoted scalar, a literal block scalar for
+ * multi-line text or a folded block scalar for long single-line text
+ */
+const formatString = (value: string, indent: number): string => {
+  // Block scalars cannot hold carriage returns or non-printable characters, and text
+  // starting with whitespace would need an explicit indentation indicator
+  const fitsBlock = !/\r|^\s/.test(value) && !hasNonPrintable(value);
+  if (value.includes('\n') && fitsBlock) {
+    return literalBlock(value, indent);
+  }
+  // Trailing whitespace at the end of a block line is easily lost, so it stays quoted
+  if (value.length > LINE_WIDTH && fitsBlock && !/\s$/.test(value)) {
+    const lines = foldLines(value);
+    if (lines.length > 1) {
+      return `>-\n${lines.map(line => `${pad(indent)}${line}\n`).join('')}`;
+    }
+  }
+  return `${needsQuotes(value) ? doubleQuote(value) : value}\n`;
+};
+
+/**
+ * Formats a value that fits after "key: " or "- ", including empty collections.
+ * Block scalars continue on the following lines at `indent`.
+ */
+const formatScalar = (value: unknown, indent: number): string => {
+  if (Array.isArray(value)) {
+    return '[]\n';
+  }
+  if (typeof value === 'object' && value !== null) {
+    return '{}\n';
+  }
+  if (typeof value === 'string') {
+    return formatString(value, indent);
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return '.nan\n';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '.inf\n' : '-.inf\n';
+    }
+    return `${Object.is(value, -0) ? '-0.0' : value}\n`;
+  }
+  if (typeof value === 'boolean') {
+    return `${value}\n`;
+  }
+  if (value === null || value === undefined) {
+    return 'null\n';
+  }
+  return formatString(String(value), indent);
+};
+
+/**
+ * Checks for objects and arrays that are written as nested blocks
+ */
+const isBlockCollection = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+
+/**
+ * Formats a non-empty collection as block lines starting at `indent`
+ */
+const formatBlock = (value: Record<string, unknown> | unknown[], indent: number): string =>
+  Array.isArray(value) ? formatSequence(value, indent) : formatMapping(value, indent);
+
+function formatMapping(obj: Record<string, unknown>, indent: number): string {
+  return Object.entries(obj)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const prefix = `${pad(indent)}${needsQuotes(key) ? doubleQuote(key) : key}:`;
+      return isBlockCollection(value)
+        ? `${prefix}\n${formatBlock(value, indent + 1)}`
+        : `${prefix} ${formatScalar(value, indent + 1)}`;
+    })
+    .join('');
+}
+
+function formatSequence(items: unknown[], indent: number): string {
+  return items
+    .map(item => {
+      if (isBlockCollection(item)) {
+        // Nested collections start on the dash line ("- key: value", "- - item")
+        return `${pad(indent)}- ${formatBlock(item, indent + 1).slice(pad(indent + 1).length)}`;
+      }
+      return `${pad(indent)}- ${formatScalar(item, indent + 1)}`;
+    })
+    .join('');
+}
+
+/**
+ * Converts a JavaScript value to YAML 1.2 that YAML 1.1 parsers read the same way.
+ * Strings are only quoted when a plain scalar would change their type or meaning,
+ * multi-line strings become literal block scalars, single-line strings longer than
+ * 80 characters are folded at spaces into folded block scalars, empty collections are written as
+ * `[]` and `{}`, and object keys keep their order. Undefined object values are skipped.
  *
- * @param obj - The object to convert (can be any type)
+ * @param obj - The value to convert (can be any type)
  * @param indent - The current indentation level (default: 0)
  * @returns YAML formatted string
  *
@@ -9,61 +185,20 @@
  * ```ts
  * const obj = {
  *   name: "test",
- *   count: 42,
+ *   version: "1.0",
  *   items: ["a", "b"]
  * };
  * toYaml(obj);
  * // Returns:
- * // name: "test"
- * // count: 42
+ * // name: test
+ * // version: "1.0"
  * // items:
- * //   - "a"
- * //   - "b"
+ * //   - a
+ * //   - b
  * ```
  */
 export function toYaml(obj: Record<string, unknown> | unknown, indent = 0): string {
-  let yaml = '';
-  const spaces = '  '.repeat(indent);
-
-  // Handle primitive values
-  if (typeof obj !== 'object' || obj === null) {
-    return `${JSON.stringify(obj)}\n`;
-  }
-
-  const objectValue = obj as Record<string, unknown>;
-
-  for (const key in objectValue) {
-    const value = objectValue[key];
-
-    // Skip undefined values
-    if (value === undefined) continue;
-
-    if (typeof value === 'object' && value !== null) {
-      // Handle arrays
-      if (Array.isArray(value)) {
-        yaml += `${spaces}${key}:\n`;
-        value.forEach((item: unknown) => {
-          if (typeof item === 'object' && item !== null) {
-            yaml += `${spaces}  - ${toYaml(item, indent + 2).trimStart()}`;
-          } else {
-            yaml += `${spaces}  - ${item}\n`;
-          }
-        });
-      }
-      // Handle empty objects
-      else if (Object.keys(value).length === 0) {
-        yaml += `${spaces}${key}: {}\n`;
-      }
-      // Handle nested objects
-      else {
-        yaml += `${spaces}${key}:\n${toYaml(value, indent + 1)}`;
-      }
-    }
-    // Handle primitive values
-    else {
-      yaml += `${spaces}${key}: ${JSON.stringify(value)}\n`;
-    }
-  }
-
-  return yaml;
+  return isBlockCollection(obj)
+    ? formatBlock(obj, indent)
+    : formatScalar(obj, indent + 1);
 }
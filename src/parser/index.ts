@@ -1,2 +1,8 @@
 export { tokenize } from './mermaidLexer';
 export { parse } from './mermaidParser';
+export { extractMermaidFences } from './markdown';
+export type { MermaidFence } from './markdown';
+export { parseSchemaDefinition } from './schemaDefinition';
+export type { SchemaDefinition, DefinitionProblem } from './schemaDefinition';
+export { parseSecuritySchemeDeclaration } from './securityScheme';
+export type { SecuritySchemeDeclaration } from './securityScheme';
@@ -0,0 +1,57 @@
+/**
+ * A Mermaid sequence diagram found in a fenced code block of a Markdown document
+ */
+export interface MermaidFence {
+  /** Diagram source between the opening and closing fence lines */
+  source: string;
+  /** Markdown lines before the first diagram line; add it to diagram line numbers */
+  lineOffset: number;
+}
+
+const FENCE_OPEN_PATTERN = /^( {0,3})(`{3,}|~{3,})\s*mermaid(?:\s.*)?$/i;
+const DIAGRAM_TYPE_PATTERN = /^\s*sequenceDiagram\b/;
+
+/**
+ * Checks whether a fence body is a sequence diagram; other Mermaid diagrams are skipped
+ */
+function isSequenceDiagram(lines: string[]): boolean {
+  const firstStatement = lines.find(line => line.trim() && !line.trim().startsWith('%%'));
+  return firstStatement !== undefined && DIAGRAM_TYPE_PATTERN.test(firstStatement);
+}
+
+/**
+ * Finds every ```mermaid (or ~~~mermaid) fence holding a sequence diagram in a
+ * Markdown or MDX document. Fences follow CommonMark: the closing fence uses the
+ * same character and is at least as long as the opening one, and an unclosed
+ * fence runs to the end of the document.
+ */
+export function extractMermaidFences(markdown: string): MermaidFence[] {
+  const fences: MermaidFence[] = [];
+  const lines = markdown.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(FENCE_OPEN_PATTERN);
+    if (!match) {
+      continue;
+    }
+
+    const [, indent, marker] = match;
+    const closePattern = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+    // Content lines lose up to as much indentation as the opening fence had
+    const stripIndent = new RegExp(`^ {0,${indent.length}}`);
+
+    const body: string[] = [];
+    let end = i + 1;
+    while (end < lines.length && !closePattern.test(lines[end])) {
+      body.push(lines[end].replace(stripIndent, ''));
+      end++;
+    }
+
+    if (isSequenceDiagram(body)) {
+      fences.push({ source: body.join('\n'), lineOffset: i + 1 });
+    }
+    i = end;
+  }
+
+  return fences;
+}
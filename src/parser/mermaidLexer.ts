@@ -1,18 +1,100 @@
-import type { MermaidToken } from '@/types';
+import type { MermaidToken, BlockKeyword, ParticipantKind } from '@/types';
+import { hasIncompleteBody, isIncompleteJson } from './noteBody';
 
 const REQUEST_PATTERN = /^\s*([^-]+?)\s*->>\s*([^:]+?):\s?(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD|get|post|put|delete|patch|options|head)\s+([^\s]+)(.*)/i;
 const RESPONSE_PATTERN = /^\s*([^-]+?)\s*-->>\s*([^:]+?):\s?(\d{3})(.*)/i;
-const PARTICIPANT_PATTERN = /^\s*participant\s+([^\s]+)/i;
+const PARTICIPANT_PATTERN = /^\s*(participant|actor)\s+([^\s]+)(?:\s+as\s+(.+))?/i;
 const NOTE_PATTERN = /^\s*Note\s+over\s+([^:]+):\s*(.+)/i;
+const BLOCK_PATTERN = /^\s*(alt|else|opt|loop|par|and|critical|option|break|rect|end)(?:\s+(.*))?$/i;
 const COMMENT_PATTERN = /^\s*%%/;
+// Diagram-level schema definition: %% @schema User {"id": 1}
+const SCHEMA_PATTERN = /^\s*%%\s*@schema\s+([^\s{[]+)\s*(.*)$/i;
+
+/**
+ * Checks whether text is a JSON payload, or reads as a malformed one (its first
+ * entry is a quoted key, a string or a nested value) rather than bracketed prose
+ * such as `[paginated]`
+ */
+function isJsonPayload(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return /^[{[]\s*["{[\]}]/.test(text);
+  }
+}
+
+/**
+ * Splits a response tail such as `OK { "id": 1 }` into its human description
+ * and an inline JSON payload (kept as raw text, parsed later by the parser).
+ * A tail whose brackets hold prose stays part of the description.
+ */
+function splitResponsePayload(tail: string): { description: string; body?: string } {
+  const trimmed = tail.trim();
+
+  // The payload may start at any bracket, e.g. `Returns a list [paginated] [{"id": 1}]`
+  for (const match of trimmed.matchAll(/[{[]/g)) {
+    const start = match.index!;
+    const closing = trimmed[start] === '{' ? '}' : ']';
+    if (trimmed.endsWith(closing) && isJsonPayload(trimmed.slice(start))) {
+      return {
+        description: trimmed.slice(0, start).trim(),
+        body: trimmed.slice(start)
+      };
+    }
+  }
+
+  return { description: trimmed };
+}
+
+/**
+ * Checks whether a line starts a new statement (and so cannot continue a note body)
+ */
+function isStatement(line: string): boolean {
+  return [REQUEST_PATTERN, RESPONSE_PATTERN, PARTICIPANT_PATTERN, NOTE_PATTERN, BLOCK_PATTERN].some(pattern => pattern.test(line));
+}
 
 export function tokenize(input: string): MermaidToken[] {
   const tokens: MermaidToken[] = [];
   const lines = input.split('\n');
+  // Lines already consumed as continuation of a multi-line note body
+  let continuedUntil = 0;
 
   lines.forEach((line, index) => {
     const trimmed = line.trim();
-    if (!trimmed || COMMENT_PATTERN.test(trimmed)) {
+    if (index < continuedUntil || !trimmed) {
+      return;
+    }
+
+    // Schema definitions live in comments so Mermaid does not render them; a payload
+    // whose braces are not balanced continues on the following comment lines
+    const schemaMatch = trimmed.match(SCHEMA_PATTERN);
+    if (schemaMatch) {
+      let body = schemaMatch[2].trim();
+      let lastLine = index;
+      while (isIncompleteJson(body) &&
+             lastLine + 1 < lines.length &&
+             COMMENT_PATTERN.test(lines[lastLine + 1]) &&
+             !SCHEMA_PATTERN.test(lines[lastLine + 1])) {
+        lastLine++;
+        body += `\n${lines[lastLine].trim().replace(COMMENT_PATTERN, '').trim()}`;
+      }
+
+      const token: MermaidToken = {
+        type: 'schema',
+        line: index + 1,
+        name: schemaMatch[1],
+        body
+      };
+      if (lastLine > index) {
+        token.endLine = lastLine + 1;
+        continuedUntil = lastLine + 1;
+      }
+      tokens.push(token);
+      return;
+    }
+
+    if (COMMENT_PATTERN.test(trimmed)) {
       return;
     }
 
@@ -34,25 +116,35 @@ export function tokenize(input: string): MermaidToken[] {
     // Try to match response
     const responseMatch = trimmed.match(RESPONSE_PATTERN);
     if (responseMatch) {
-      tokens.push({
+      const { description, body } = splitResponsePayload(responseMatch[4] || '');
+      const token: MermaidToken = {
         type: 'response',
         line: index + 1,
         source: responseMatch[1].trim(),
         target: responseMatch[2].trim(),
         status: responseMatch[3],
-        description: responseMatch[4]?.trim()
-      });
+        description
+      };
+      if (body) {
+        token.body = body;
+      }
+      tokens.push(token);
       return;
     }
 
     // Try to match participant
     const participantMatch = trimmed.match(PARTICIPANT_PATTERN);
     if (participantMatch) {
-      tokens.push({
+      const token: MermaidToken = {
         type: 'participant',
         line: index + 1,
-        name: participantMatch[1].trim()
-      });
+        name: participantMatch[2].trim(),
+        participantKind: participantMatch[1].toLowerCase() as ParticipantKind
+      };
+      if (participantMatch[3]?.trim()) {
+        token.alias = participantMatch[3].trim();
+      }
+      tokens.push(token);
       return;
     }
 
@@ -60,12 +152,40 @@ export function tokenize(input: string): MermaidToken[] {
     const noteMatch = trimmed.match(NOTE_PATTERN);
     if (noteMatch) {
       const participants = noteMatch[1].split(',').map(p => p.trim());
-      tokens.push({
+      let content = noteMatch[2].trim();
+
+      // A body whose braces are not balanced continues on the following lines
+      let lastLine = index;
+      while (hasIncompleteBody(content) &&
+             lastLine + 1 < lines.length &&
+             !isStatement(lines[lastLine + 1].trim())) {
+        lastLine++;
+        content += `\n${lines[lastLine].trim()}`;
+      }
+
+      const token: MermaidToken = {
         type: 'note',
         line: index + 1,
         participants,
-        content: noteMatch[2].trim(),
-        noteType: noteMatch[2].toLowerCase().startsWith('body:') ? 'body' : 'info'
+        content,
+        noteType: /^(request-|response-)?body(<[^>]*>)?:/i.test(noteMatch[2]) ? 'body' : 'info'
+      };
+      if (lastLine > index) {
+        token.endLine = lastLine + 1;
+        continuedUntil = lastLine + 1;
+      }
+      tokens.push(token);
+      return;
+    }
+
+    // Try to match block keyword (alt, else, opt, loop, par, critical, end, ...)
+    const blockMatch = trimmed.match(BLOCK_PATTERN);
+    if (blockMatch) {
+      tokens.push({
+        type: 'block',
+        line: index + 1,
+        keyword: blockMatch[1].toLowerCase() as BlockKeyword,
+        label: (blockMatch[2] || '').trim()
       });
       return;
     }
@@ -1,19 +1,155 @@
-import type { MermaidToken, MermaidAST, Interaction } from '@/types';
+import type { MermaidToken, MermaidAST, Interaction, InteractionResponse, Block, BlockKind, BlockKeyword, Participant, ParameterDeclaration, SecurityScheme } from '@/types';
+import { extractBodyJson, getJsonErrorLineOffset } from './noteBody';
+import { parseSecuritySchemeDeclaration, SECURITY_SCHEME_PATTERN } from './securityScheme';
+import type { BodyDirective } from './noteBody';
+
+/**
+ * Block kinds that a branch keyword may continue
+ */
+const BRANCH_KEYWORDS: Partial<Record<BlockKeyword, BlockKind>> = {
+  else: 'alt',
+  and: 'par',
+  option: 'critical'
+};
+
+/**
+ * Maps one scheme of a Security: line to the name the generator knows it by:
+ * bearerAuth, basicAuth, apiKey_header, apiKey_query, oauth2[:scopes], openIdConnect,
+ * or a custom (declared) scheme name with optional scopes
+ */
+const securitySchemeName = (securityInfo: string): string => {
+  // Pattern: "bearerAuth" or "basicAuth"
+  if (securityInfo.toLowerCase() === 'bearerauth') {
+    return 'bearerAuth';
+  }
+  if (securityInfo.toLowerCase() === 'basicauth') {
+    return 'basicAuth';
+  }
+  // Pattern: "apiKey in header" or "apiKey in query"; longer names such as
+  // "apiKeyAuth" are custom (declared) schemes
+  if (/^apikey(?:\s|$)/i.test(securityInfo)) {
+    const locationMatch = securityInfo.match(/apiKey\s+in\s+(header|query)/i);
+    // Default to header if location not specified
+    return locationMatch ? `apiKey_${locationMatch[1].toLowerCase()}` : 'apiKey_header';
+  }
+  // Pattern: OAuth2 with optional scopes
+  if (/^oauth2\s*(?:\[.*\])?$/i.test(securityInfo)) {
+    const scopesMatch = securityInfo.match(/oauth2\s*\[(.*?)\]/i);
+    if (scopesMatch) {
+      // Parse scopes: read,write
+      const scopes = scopesMatch[1].split(',').map(s => s.trim()).filter(s => s);
+      return `oauth2:${scopes.join(',')}`;
+    }
+    return 'oauth2';
+  }
+  // Pattern: OpenID Connect
+  if (/^openid\s*(?:connect)?$/i.test(securityInfo)) {
+    return 'openIdConnect';
+  }
+  // Otherwise, treat as a custom scheme name, optionally with scopes: "partnerAuth [read]"
+  const customMatch = securityInfo.match(/^(\S+)\s*\[(.*?)\]$/);
+  if (customMatch) {
+    const scopes = customMatch[2].split(',').map(s => s.trim()).filter(s => s);
+    return scopes.length > 0 ? `${customMatch[1]}:${scopes.join(',')}` : customMatch[1];
+  }
+  return securityInfo;
+};
 
 export function parse(tokens: MermaidToken[]): MermaidAST {
   const participants = new Set<string>();
+  const participantTable = new Map<string, Participant>();
   const interactions: Interaction[] = [];
   const notes: MermaidAST['notes'] = [];
+  // Payloads of named bodies (`Body<User>: {...}`); the first definition of a name is kept
+  const schemas: Record<string, unknown> = {};
+  // Diagram-level definitions (`%% @schema User {...}`) win over named bodies
+  const schemaDefinitions: Record<string, unknown> = {};
+  // Security schemes declared in notes (`SecurityScheme oauth2 authorizationCode ...`);
+  // the first declaration of a name is kept
+  const securitySchemes: Record<string, SecurityScheme> = {};
 
   // Extract participants from tokens
   tokens.forEach(token => {
     if (token.type === 'participant') {
       participants.add(token.name!);
+      participantTable.set(token.name!, {
+        id: token.name!,
+        label: token.alias || token.name!,
+        kind: token.participantKind || 'participant'
+      });
     }
   });
 
   // Build interactions and pair responses
   let lastRequest: Interaction | null = null;
+  // Request that already received a response; further responses on the same
+  // channel are collected as additional status codes until the next request
+  let pairedRequest: Interaction | null = null;
+
+  // Nested alt/opt/loop/par/critical blocks
+  const blocks: Block[] = [];
+  const openBlocks: Block[] = [];
+
+  const isReplyTo = (request: Interaction | null, token: MermaidToken): request is Interaction => {
+    return !!request && request.to === token.source && request.from === token.target;
+  };
+
+  const currentBranch = () => {
+    const block = openBlocks[openBlocks.length - 1];
+    return block ? block.branches[block.branches.length - 1] : null;
+  };
+
+  // Innermost alt block opened after the given request, if any
+  const enclosingAlt = (request: Interaction) => {
+    return [...openBlocks].reverse().find(block => block.kind === 'alt' && block.line > request.line);
+  };
+
+  // Parses the JSON payload of a body directive, reporting invalid JSON at the offending line.
+  // Payloads of named directives define their schema name.
+  const parseBodyDirective = (token: MermaidToken, directive: BodyDirective): unknown => {
+    const payload = extractBodyJson(token.content!, directive);
+    // Named directives without a payload only reference their schema
+    if (!payload || (payload.schemaName && !payload.json)) {
+      return undefined;
+    }
+
+    try {
+      const body = JSON.parse(payload.json);
+      if (payload.schemaName && !Object.hasOwn(schemas, payload.schemaName)) {
+        schemas[payload.schemaName] = body;
+      }
+      return body;
+    } catch (error) {
+      const line = token.line + getJsonErrorLineOffset(payload.json, error, payload.escapedNewlines);
+      notes.push({
+        type: 'error',
+        line,
+        message: `Invalid JSON in body note at line ${line}: ${token.content}`
+      });
+      return undefined;
+    }
+  };
+
+  // Schema name of a named body directive (`Body<User>:`) in a note
+  const bodySchemaName = (token: MermaidToken, directive: BodyDirective): string | undefined => {
+    return extractBodyJson(token.content!, directive)?.schemaName;
+  };
+
+  const addResponse = (request: Interaction, response: InteractionResponse) => {
+    // Responses inside an alt block that follows the request use the branch label as description
+    const altBlock = enclosingAlt(request);
+    if (altBlock) {
+      const branch = altBlock.branches[altBlock.branches.length - 1];
+      response.description = branch.label || response.description;
+    }
+
+    if (!request.responses) {
+      request.response = response;
+      request.responses = [response];
+    } else {
+      request.responses.push(response);
+    }
+  };
 
   tokens.forEach(token => {
     if (token.type === 'request') {
@@ -31,15 +167,46 @@ export function parse(tokens: MermaidToken[]): MermaidAST {
       participants.add(token.target!);
 
       interactions.push(interaction);
+      currentBranch()?.interactions.push(interaction);
       lastRequest = interaction;
+      pairedRequest = null;
     } else if (token.type === 'response') {
-      if (lastRequest && lastRequest.to === token.source && lastRequest.from === token.target) {
+      const response: InteractionResponse = {
+        status: token.status,
+        description: token.description,
+        line: token.line
+      };
+
+      // Parse inline JSON payload from the response arrow
+      if (token.body) {
+        try {
+          response.body = JSON.parse(token.body);
+        } catch {
+          notes.push({
+            type: 'error',
+            line: token.line,
+            message: `Invalid JSON in response body at line ${token.line}: ${token.body}`
+          });
+        }
+      }
+
+      // Earlier request still waiting for a reply, or answered by an enclosing alt block
+      // (nested calls to other services may have happened in between)
+      const outerRequest = [...interactions].reverse().find(interaction =>
+        isReplyTo(interaction, token) && (!interaction.responses || !!enclosingAlt(interaction))
+      );
+
+      if (isReplyTo(lastRequest, token)) {
         // Pair response with request
-        lastRequest.response = {
-          status: token.status,
-          description: token.description
-        };
+        addResponse(lastRequest, response);
+        pairedRequest = lastRequest;
         lastRequest = null;
+      } else if (isReplyTo(pairedRequest, token)) {
+        // Additional response for the same request (e.g. error status codes)
+        addResponse(pairedRequest, response);
+      } else if (outerRequest) {
+        addResponse(outerRequest, response);
+        pairedRequest = outerRequest;
       } else {
         // Orphaned response
         notes.push({
@@ -49,25 +216,53 @@ export function parse(tokens: MermaidToken[]): MermaidAST {
         });
       }
     } else if (token.type === 'note') {
+      // Security scheme declarations may sit in any note, attached to a request or not
+      token.content?.replace(/\\n/g, '\n').split('\n').forEach(contentLine => {
+        const declarationMatch = contentLine.match(SECURITY_SCHEME_PATTERN);
+        const declaration = declarationMatch && parseSecuritySchemeDeclaration(declarationMatch[1]);
+        if (declaration?.scheme && !Object.hasOwn(securitySchemes, declaration.name)) {
+          securitySchemes[declaration.name] = declaration.scheme;
+        }
+      });
+
+      // A note right after a response describes that response's body
+      const lastResponse = pairedRequest?.responses?.[pairedRequest.responses.length - 1];
+      if (!lastRequest && pairedRequest && lastResponse && token.content &&
+          token.participants && token.participants.includes(pairedRequest.to)) {
+        const directive = extractBodyJson(token.content, 'Response-Body') ? 'Response-Body' : 'Body';
+        const responseBody = parseBodyDirective(token, directive);
+        if (responseBody !== undefined) {
+          lastResponse.body = responseBody;
+        }
+        lastResponse.bodySchema = bodySchemaName(token, directive) ?? lastResponse.bodySchema;
+      }
+
       // Attach note to last request
       if (lastRequest && token.participants && token.participants.includes(lastRequest.to)) {
         if (token.content) {
-          // Parse body from note (works for both body and info note types)
-          // Use the original content (not normalized) for JSON parsing
-          // The regex stops at \n which is correct - JSON.parse handles escaped \n correctly
-          try {
-            const jsonMatch = token.content.match(/Body:\s*(.+?)(?=\n|$)/i);
-            if (jsonMatch) {
-              lastRequest.body = JSON.parse(jsonMatch[1]);
-            }
-          } catch {
-            notes.push({
-              type: 'error',
-              line: token.line,
-              message: `Invalid JSON in body note at line ${token.line}: ${token.content}`
-            });
+          // Parse bodies from note (works for both body and info note types)
+          // Use the original content (not normalized) for JSON parsing; the payload
+          // may span several lines until its braces are balanced
+          const body = parseBodyDirective(token, 'Body');
+          if (body !== undefined) {
+            lastRequest.body = body;
           }
 
+          const requestBody = parseBodyDirective(token, 'Request-Body');
+          if (requestBody !== undefined) {
+            lastRequest.requestBody = requestBody;
+          }
+
+          const responseBody = parseBodyDirective(token, 'Response-Body');
+          if (responseBody !== undefined) {
+            lastRequest.responseBody = responseBody;
+          }
+
+          // Named bodies are emitted as (or refer to) schema components
+          lastRequest.bodySchema = bodySchemaName(token, 'Body') ?? lastRequest.bodySchema;
+          lastRequest.requestBodySchema = bodySchemaName(token, 'Request-Body') ?? lastRequest.requestBodySchema;
+          lastRequest.responseBodySchema = bodySchemaName(token, 'Response-Body') ?? lastRequest.responseBodySchema;
+
           // Normalize newlines for non-JSON parsing (like Security declarations)
           // handle both \n and literal \n
           const normalizedContent = token.content.replace(/\\n/g, '\n');
@@ -82,42 +277,11 @@ export function parse(tokens: MermaidToken[]): MermaidAST {
               lastRequest.security = [];
             }
 
-            // Parse different security patterns
-            // Pattern: "bearerAuth" or "basicAuth"
-            if (securityInfo.toLowerCase() === 'bearerauth') {
-              lastRequest.security.push('bearerAuth');
-            } else if (securityInfo.toLowerCase() === 'basicauth') {
-              lastRequest.security.push('basicAuth');
-            }
-            // Pattern: "apiKey in header" or "apiKey in query"
-            else if (securityInfo.toLowerCase().startsWith('apikey')) {
-              const locationMatch = securityInfo.match(/apiKey\s+in\s+(header|query)/i);
-              if (locationMatch) {
-                const location = locationMatch[1].toLowerCase();
-                lastRequest.security.push(`apiKey_${location}`);
-              } else {
-                // Default to header if location not specified
-                lastRequest.security.push('apiKey_header');
-              }
-            }
-            // Pattern: OAuth2 with optional scopes
-            else if (securityInfo.toLowerCase().startsWith('oauth2')) {
-              const scopesMatch = securityInfo.match(/oauth2\s*\[(.*?)\]/i);
-              if (scopesMatch) {
-                // Parse scopes: read,write
-                const scopes = scopesMatch[1].split(',').map(s => s.trim()).filter(s => s);
-                lastRequest.security.push(`oauth2:${scopes.join(',')}`);
-              } else {
-                lastRequest.security.push('oauth2');
-              }
-            }
-            // Pattern: OpenID Connect
-            else if (securityInfo.toLowerCase().startsWith('openid')) {
-              lastRequest.security.push('openIdConnect');
-            }
-            // Otherwise, treat as a custom scheme name
-            else {
-              lastRequest.security.push(securityInfo);
+            // "none" makes authentication optional; schemes joined with "+" are all required
+            if (securityInfo.toLowerCase() === 'none') {
+              lastRequest.security.push('none');
+            } else {
+              lastRequest.security.push(securityInfo.split('+').map(part => securitySchemeName(part.trim())).join('+'));
             }
           }
 
@@ -127,8 +291,8 @@ export function parse(tokens: MermaidToken[]): MermaidAST {
             lastRequest.summary = summaryMatch[1].trim();
           }
 
-          // Parse description from note
-          const descriptionMatch = normalizedContent.match(/Description:\s*(.+?)(?=\n|$)/i);
+          // Parse description from note (not the tail of External-Docs-Description:)
+          const descriptionMatch = normalizedContent.match(/(?<![\w-])Description:\s*(.+?)(?=\n|$)/i);
           if (descriptionMatch) {
             lastRequest.description = descriptionMatch[1].trim();
           }
@@ -172,14 +336,107 @@ export function parse(tokens: MermaidToken[]): MermaidAST {
           if (responseTypeMatch) {
             lastRequest.responseMediaType = responseTypeMatch[1].trim();
           }
+
+          // Parse parameter declarations: "Header: X-Request-Id string, required"
+          const parameterRegex = /(?:^|\n)\s*(Header|Cookie|Query|Path):\s*(\S+)[^\S\n]*(.*?)(?=\n|$)/gi;
+          let parameterMatch;
+
+          while ((parameterMatch = parameterRegex.exec(normalizedContent)) !== null) {
+            if (!lastRequest.parameters) {
+              lastRequest.parameters = [];
+            }
+
+            const definition = parameterMatch[3].trim();
+            lastRequest.parameters.push({
+              name: parameterMatch[2],
+              in: parameterMatch[1].toLowerCase() as ParameterDeclaration['in'],
+              definition: definition || undefined
+            });
+          }
+        }
+      }
+    } else if (token.type === 'schema') {
+      try {
+        const definition = JSON.parse(token.body!);
+        if (!Object.hasOwn(schemaDefinitions, token.name!)) {
+          schemaDefinitions[token.name!] = definition;
+        }
+      } catch (error) {
+        const line = token.line + getJsonErrorLineOffset(token.body!, error);
+        notes.push({
+          type: 'error',
+          line,
+          message: `Invalid JSON in schema definition at line ${line}: ${token.body}`
+        });
+      }
+    } else if (token.type === 'block') {
+      const keyword = token.keyword!;
+      const label = token.label || undefined;
+
+      if (keyword === 'end') {
+        const block = openBlocks.pop();
+        if (block) {
+          block.endLine = token.line;
+        } else {
+          notes.push({
+            type: 'warning',
+            line: token.line,
+            message: `unexpected end without an open block at line ${token.line}`
+          });
+        }
+      } else if (BRANCH_KEYWORDS[keyword]) {
+        const block = openBlocks[openBlocks.length - 1];
+        if (block && block.kind === BRANCH_KEYWORDS[keyword]) {
+          block.branches.push({ label, line: token.line, interactions: [], blocks: [] });
+        } else {
+          notes.push({
+            type: 'warning',
+            line: token.line,
+            message: `unexpected ${keyword} outside of a ${BRANCH_KEYWORDS[keyword]} block at line ${token.line}`
+          });
+        }
+      } else {
+        const block: Block = {
+          kind: keyword as BlockKind,
+          line: token.line,
+          branches: [{ label, line: token.line, interactions: [], blocks: [] }]
+        };
+
+        const parentBranch = currentBranch();
+        if (parentBranch) {
+          parentBranch.blocks.push(block);
+        } else {
+          blocks.push(block);
         }
+
+        openBlocks.push(block);
       }
     }
   });
 
+  // Report blocks that were never closed
+  openBlocks.forEach(block => {
+    notes.push({
+      type: 'warning',
+      line: block.line,
+      message: `unclosed ${block.kind} block opened at line ${block.line}`
+    });
+  });
+
+  // Participants only used in interactions are implicitly declared
+  participants.forEach(id => {
+    if (!participantTable.has(id)) {
+      participantTable.set(id, { id, label: id, kind: 'participant' });
+    }
+  });
+
   return {
     participants: Array.from(participants),
+    participantTable: Array.from(participantTable.values()),
     interactions,
-    notes
+    notes,
+    blocks,
+    schemas: { ...schemas, ...schemaDefinitions },
+    securitySchemes
   };
 }
@@ -0,0 +1,179 @@
+/**
+ * Result of extracting a JSON payload from a note directive
+ */
+export interface JsonPayload {
+  /** JSON text with `\n` separators outside strings turned into real newlines */
+  json: string;
+  /** Positions in `json` of newlines converted from `\n` separators, which are not source lines */
+  escapedNewlines?: number[];
+  /** False when the payload opens more braces/brackets than it closes */
+  complete: boolean;
+  /** Schema name given in angle brackets (`Body<User>:`); without JSON the body only references it */
+  schemaName?: string;
+}
+
+export type BodyDirective = 'Body' | 'Request-Body' | 'Response-Body';
+
+export const BODY_DIRECTIVES: BodyDirective[] = ['Body', 'Request-Body', 'Response-Body'];
+
+// A directive starts the content, a line, or follows an escaped `\n` separator,
+// so "Body:" never matches the tail of "Request-Body:" or "Response-Body:" nor
+// prose such as "see Body: above". It may name its schema in angle brackets: "Body<User>:"
+const directivePattern = (directive: BodyDirective) =>
+  new RegExp(`(?:^|(?<=\\\\n))[^\\S\\n]*${directive}(?:<\\s*([A-Za-z][\\w.-]*)\\s*>)?:[^\\S\\n]*`, 'im');
+
+const BODY_DIRECTIVE_PATTERNS: Record<BodyDirective, RegExp> = {
+  'Body': directivePattern('Body'),
+  'Request-Body': directivePattern('Request-Body'),
+  'Response-Body': directivePattern('Response-Body')
+};
+
+/**
+ * Scans a JSON payload starting at `start`, stopping once the opening brace or
+ * bracket is balanced. Strings are skipped so braces inside them don't count,
+ * and escaped `\n` separators between tokens become real newlines.
+ */
+function scanJsonPayload(text: string, start: number): JsonPayload {
+  const opening = text[start];
+
+  // Primitive payloads run until the end of the line
+  if (opening !== '{' && opening !== '[') {
+    const rest = text.slice(start);
+    const end = rest.search(/\n|\\n/);
+    return { json: (end === -1 ? rest : rest.slice(0, end)).trim(), complete: true };
+  }
+
+  let json = '';
+  let depth = 0;
+  let inString = false;
+  const escapedNewlines: number[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      json += char;
+      if (char === '\\' && i + 1 < text.length) {
+        json += text[++i];
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '\\' && text[i + 1] === 'n') {
+      escapedNewlines.push(json.length);
+      json += '\n';
+      i++;
+      continue;
+    }
+
+    json += char;
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return { json, complete: true, ...(escapedNewlines.length > 0 && { escapedNewlines }) };
+      }
+    }
+  }
+
+  return { json, complete: false, ...(escapedNewlines.length > 0 && { escapedNewlines }) };
+}
+
+/**
+ * Extracts the JSON payload following a body directive (`Body:` by default) in
+ * note content. The payload may span several lines as long as its braces are balanced.
+ * A named directive (`Body<User>:`) may have no payload, leaving `json` empty.
+ *
+ * @returns The payload, or null when the content has no such directive
+ */
+export function extractBodyJson(content: string, directive: BodyDirective = 'Body'): JsonPayload | null {
+  const match = BODY_DIRECTIVE_PATTERNS[directive].exec(content);
+  if (!match) {
+    return null;
+  }
+
+  const payload = scanJsonPayload(content, match.index + match[0].length);
+  return match[1] ? { ...payload, schemaName: match[1] } : payload;
+}
+
+/**
+ * Checks whether any body directive in the content is still waiting for closing braces
+ */
+export function hasIncompleteBody(content: string): boolean {
+  return BODY_DIRECTIVES.some(directive => extractBodyJson(content, directive)?.complete === false);
+}
+
+/**
+ * Checks whether a JSON payload opens more braces/brackets than it closes
+ */
+export function isIncompleteJson(json: string): boolean {
+  return !scanJsonPayload(json.trim(), 0).complete;
+}
+
+/**
+ * Counts the source lines before a position in a payload; newlines converted from
+ * escaped `\n` separators sit on the same source line and are not counted
+ */
+export function getJsonLineOffset(json: string, position: number, escapedNewlines: number[] = []): number {
+  const newlines = json.slice(0, position).split('\n').length - 1;
+  return newlines - escapedNewlines.filter(index => index < position).length;
+}
+
+/**
+ * Checks whether JSON text fails to parse before its end, rather than only because
+ * it stops early
+ */
+function failsWithinText(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return false;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    const positionMatch = message.match(/position (\d+)/);
+    return !/end of JSON input/.test(message) && (!positionMatch || Number(positionMatch[1]) < text.length);
+  }
+}
+
+/**
+ * Maps a JSON.parse error back to the line of the payload it occurred on.
+ *
+ * @param json - The JSON text that failed to parse
+ * @param error - The error thrown by JSON.parse
+ * @param escapedNewlines - Positions of newlines converted from escaped `\n` separators
+ * @returns Zero-based line offset inside the payload
+ */
+export function getJsonErrorLineOffset(json: string, error: unknown, escapedNewlines: number[] = []): number {
+  const message = error instanceof Error ? error.message : '';
+
+  // Firefox: "... at line 2 column 3 of the JSON data"
+  const lineMatch = message.match(/line (\d+) column/);
+  if (lineMatch) {
+    const line = Number(lineMatch[1]) - 1;
+    const lineStart = line > 0 ? json.split('\n').slice(0, line).join('\n').length + 1 : 0;
+    return line - escapedNewlines.filter(index => index < lineStart).length;
+  }
+
+  // V8: "... in JSON at position 11"
+  const positionMatch = message.match(/position (\d+)/);
+  if (positionMatch) {
+    return getJsonLineOffset(json, Number(positionMatch[1]), escapedNewlines);
+  }
+
+  // V8 without a position: "Unexpected token 'x', ..."b": x,... is not valid JSON".
+  // The offending token is on the first line that cannot be the start of valid JSON.
+  if (/^Unexpected token/.test(message)) {
+    for (let lineEnd = json.indexOf('\n'); lineEnd >= 0; lineEnd = json.indexOf('\n', lineEnd + 1)) {
+      if (failsWithinText(json.slice(0, lineEnd))) {
+        return getJsonLineOffset(json, lineEnd, escapedNewlines);
+      }
+    }
+  }
+
+  // Unexpected end of input points at the last line
+  return getJsonLineOffset(json, json.length, escapedNewlines);
+}
@@ -0,0 +1,221 @@
+/**
+ * Parser for the definition mini-language used in body values and parameter notes
+ * (`"integer, required, min:1"`):
+ *
+ *   definition := item ("," item)*
+ *   item       := types | flag | option
+ *   types      := type ("|" type)*        first item only, e.g. "integer|null"
+ *   flag       := "required" | "uniqueItems" | "readOnly" | "writeOnly"
+ *   option     := name ":" value          e.g. "min:1", "example:http://x"
+ *
+ * An option value runs to the next "," (and, for `enum:`, the next "|"). Values may
+ * be quoted with '...' or "..." or escape a separator with a backslash (`\,`, `\|`);
+ * colons never need escaping. A string only counts as a definition when it starts
+ * with a type, or uses `required` or an option, so plain text such as "Hello, world"
+ * or "12:30" stays an example; `string, example:'required'` forces the other way.
+ */
+
+export const DEFINITION_TYPES = ['string', 'integer', 'number', 'boolean', 'array', 'object'];
+
+export const DEFINITION_FLAGS = ['required', 'uniqueItems', 'readOnly', 'writeOnly'];
+
+export const DEFINITION_OPTIONS = [
+  'min', 'max', 'format', 'example', 'enum', 'default', 'pattern', 'multipleOf', 'minItems', 'maxItems'
+] as const;
+
+export type DefinitionOption = typeof DEFINITION_OPTIONS[number];
+
+const NUMERIC_OPTIONS: DefinitionOption[] = ['min', 'max', 'multipleOf', 'minItems', 'maxItems'];
+
+// Characters a backslash escapes; other backslashes (as in `\d`) are kept
+const ESCAPABLE = ',|\'"';
+
+export interface DefinitionProblem {
+  message: string;
+  suggestion?: string;
+}
+
+export interface SchemaDefinition {
+  /** Types of the first item, "null" included (`integer|null` gives both) */
+  types: string[];
+  flags: string[];
+  /** Option values, unquoted and unescaped */
+  options: Partial<Record<DefinitionOption, string>>;
+  /** Values of `enum:`, split at unquoted "|" */
+  enumValues?: string[];
+  /** Malformed parts; the rest of the definition is still read */
+  problems: DefinitionProblem[];
+}
+
+interface RawItem {
+  /** Text of an item without ":" (a type list or flag) */
+  word?: string;
+  /** Option name before the first ":" */
+  name?: string;
+  values: string[];
+}
+
+/**
+ * Reads one value starting at `start`: a quoted string or raw text up to one of the
+ * `stops` characters. Returns the value and the position of the stop (or the end).
+ */
+function readValue(text: string, start: number, stops: string, problems: DefinitionProblem[]): { value: string; end: number } {
+  let pos = start;
+  while (text[pos] === ' ' || text[pos] === '\t') {
+    pos++;
+  }
+
+  const quote = text[pos];
+  if (quote === '"' || quote === "'") {
+    let value = '';
+    pos++;
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\' && text[pos + 1] === quote) {
+        pos++;
+      }
+      value += text[pos];
+      pos++;
+    }
+    if (pos >= text.length) {
+      problems.push({ message: `Unterminated quote in definition: ${text.slice(start).trim()}`, suggestion: `Close the value with ${quote}` });
+      return { value, end: pos };
+    }
+    pos++;
+
+    const rest = pos;
+    while (pos < text.length && !stops.includes(text[pos])) {
+      pos++;
+    }
+    if (text.slice(rest, pos).trim()) {
+      problems.push({ message: `Unexpected text after quoted value: ${text.slice(rest, pos).trim()}`, suggestion: 'Quote the whole value' });
+    }
+    return { value, end: pos };
+  }
+
+  let value = '';
+  while (pos < text.length && !stops.includes(text[pos])) {
+    if (text[pos] === '\\' && ESCAPABLE.includes(text[pos + 1] ?? '')) {
+      pos++;
+    }
+    value += text[pos];
+    pos++;
+  }
+  return { value: value.trim(), end: pos };
+}
+
+/**
+ * Splits a definition into items: words (types and flags) and options with their values
+ */
+function scanItems(text: string, problems: DefinitionProblem[]): RawItem[] {
+  const items: RawItem[] = [];
+  let pos = 0;
+
+  for (;;) {
+    const start = pos;
+    while (pos < text.length && text[pos] !== ',' && text[pos] !== ':') {
+      pos += text[pos] === '\\' && ESCAPABLE.includes(text[pos + 1] ?? '') ? 2 : 1;
+    }
+    const token = text.slice(start, pos).trim();
+
+    if (text[pos] === ':') {
+      const values: string[] = [];
+      const stops = token === 'enum' ? ',|' : ',';
+      let end = pos;
+      do {
+        const result = readValue(text, end + 1, stops, problems);
+        values.push(result.value);
+        end = result.end;
+      } while (text[end] === '|');
+      items.push({ name: token, values });
+      pos = end;
+    } else {
+      items.push({ word: token, values: [] });
+    }
+
+    if (pos >= text.length) {
+      return items;
+    }
+    pos++;
+  }
+}
+
+/**
+ * Reads a type list such as `integer|string|null`; undefined unless every entry is a
+ * type and at least one is not "null"
+ */
+function readTypes(word: string | undefined): string[] | undefined {
+  const types = word?.split('|').map(type => type.trim());
+  if (!types || !types.every(type => DEFINITION_TYPES.includes(type) || type === 'null') || !types.some(type => type !== 'null')) {
+    return undefined;
+  }
+  return types;
+}
+
+/**
+ * Parses a definition string, or returns undefined when the string is plain text.
+ * Malformed items are reported in `problems` instead of throwing.
+ */
+export function parseSchemaDefinition(value: string): SchemaDefinition | undefined {
+  const problems: DefinitionProblem[] = [];
+  const items = scanItems(value.trim(), problems);
+
+  const types = readTypes(items[0].word);
+  const isDefinition = types !== undefined || items.some(item =>
+    item.word === 'required' || (item.name !== undefined && (DEFINITION_OPTIONS as readonly string[]).includes(item.name))
+  );
+  if (!isDefinition) {
+    return undefined;
+  }
+
+  const definition: SchemaDefinition = { types: types || [], flags: [], options: {}, problems };
+
+  items.slice(types ? 1 : 0).forEach(item => {
+    if (item.name === undefined) {
+      const word = item.word || '';
+      if (DEFINITION_FLAGS.includes(word)) {
+        definition.flags.push(word);
+      } else if (!word) {
+        problems.push({ message: 'Empty item in definition', suggestion: 'Remove the extra ","' });
+      } else if (readTypes(word)) {
+        problems.push({ message: `Type "${word}" must come first in a definition`, suggestion: `Start the definition with "${word}"` });
+      } else {
+        problems.push({
+          message: `Unknown keyword "${word}" in definition`,
+          suggestion: `Start with a type (${DEFINITION_TYPES.join(', ')}), use a flag (${DEFINITION_FLAGS.join(', ')}) or an option such as min:1; quote values containing ","`
+        });
+      }
+      return;
+    }
+
+    const name = item.name as DefinitionOption;
+    if (!DEFINITION_OPTIONS.includes(name)) {
+      problems.push({ message: `Unknown option "${item.name}" in definition`, suggestion: `Use one of: ${DEFINITION_OPTIONS.map(option => `${option}:`).join(', ')}` });
+      return;
+    }
+    if (definition.options[name] !== undefined) {
+      problems.push({ message: `Option "${name}" is given more than once` });
+      return;
+    }
+
+    const [optionValue] = item.values;
+    if (NUMERIC_OPTIONS.includes(name) && (optionValue === '' || !Number.isFinite(Number(optionValue)))) {
+      problems.push({ message: `Option "${name}" expects a number, got "${optionValue}"` });
+      return;
+    }
+    definition.options[name] = item.values.join('|');
+    if (name === 'enum') {
+      definition.enumValues = item.values;
+    }
+  });
+
+  return definition;
+}
+
+/**
+ * Quotes a value for use in a definition when it contains a separator (or a leading
+ * quote); `separators` adds "|" for enum values
+ */
+export function quoteDefinitionValue(value: string, separators = ','): string {
+  const needsQuotes = [...separators].some(separator => value.includes(separator)) || /^\s|\s$|^["']/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '\\"')}"` : value;
+}
@@ -0,0 +1,214 @@
+import type { SecurityScheme, OAuthFlows } from '@/types';
+import type { DefinitionProblem } from './schemaDefinition';
+
+/**
+ * Parser for diagram-level security scheme declarations in notes:
+ *
+ *   declaration := "SecurityScheme" [name] type word* option*
+ *   type        := "apiKey" | "http" | "oauth2" | "openIdConnect"
+ *   option      := key "=" value          e.g. "tokenUrl=https://auth.example.com/token"
+ *
+ * `http` takes its scheme as a word (`http bearer bearerFormat=opaque`) and `oauth2`
+ * its flow (`oauth2 authorizationCode authUrl=... tokenUrl=... scopes=read:Read,write:Write`).
+ * Values containing spaces are quoted with '...' or "...". Without a name the scheme
+ * takes the name `Security:` lines already use for its type: bearerAuth, basicAuth,
+ * apiKey_header, apiKey_query, oauth2 or openIdConnect.
+ */
+
+export const SECURITY_SCHEME_PATTERN = /^\s*SecurityScheme\b\s*(.*?)\s*$/i;
+
+export const SECURITY_SCHEME_TYPES: SecurityScheme['type'][] = ['apiKey', 'http', 'oauth2', 'openIdConnect'];
+
+const OAUTH_FLOWS: (keyof OAuthFlows)[] = ['implicit', 'password', 'clientCredentials', 'authorizationCode'];
+
+// Options each type accepts; `description` is accepted by all of them
+const TYPE_OPTIONS: Record<SecurityScheme['type'], string[]> = {
+  apiKey: ['name', 'in'],
+  http: ['bearerFormat'],
+  oauth2: ['authUrl', 'tokenUrl', 'refreshUrl', 'scopes'],
+  openIdConnect: ['url']
+};
+
+export interface SecuritySchemeDeclaration {
+  /** Name operations refer to in `Security:` lines */
+  name: string;
+  /** Undefined when the declaration has no valid type */
+  scheme?: SecurityScheme;
+  /** Malformed parts; the rest of the declaration is still read */
+  problems: DefinitionProblem[];
+}
+
+/**
+ * Splits a declaration into whitespace-separated words, keeping quoted values together
+ */
+function splitWords(text: string, problems: DefinitionProblem[]): string[] {
+  const words: string[] = [];
+  let word = '';
+  let quote = '';
+  let started = false;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) {
+        quote = '';
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      started = true;
+    } else if (/\s/.test(char)) {
+      if (started) {
+        words.push(word);
+      }
+      word = '';
+      started = false;
+    } else {
+      word += char;
+      started = true;
+    }
+  }
+
+  if (quote) {
+    problems.push({ message: `Unterminated quote in security scheme: ${text}`, suggestion: `Close the value with ${quote}` });
+  }
+  if (started) {
+    words.push(word);
+  }
+  return words;
+}
+
+const findIgnoringCase = <T extends string>(values: T[], word: string | undefined): T | undefined => {
+  return values.find(value => value.toLowerCase() === word?.toLowerCase());
+};
+
+/**
+ * Reads `scopes=read:Read,write:Write`; scopes without a description get a default one
+ */
+function parseScopes(value: string): Record<string, string> {
+  const scopes: Record<string, string> = {};
+  value.split(',').map(scope => scope.trim()).filter(scope => scope).forEach(scope => {
+    const separator = scope.indexOf(':');
+    const name = separator < 0 ? scope : scope.slice(0, separator).trim();
+    scopes[name] = separator < 0 ? `${name} permission` : scope.slice(separator + 1).trim();
+  });
+  return scopes;
+}
+
+/**
+ * Name a scheme gets when its declaration does not give one
+ */
+function defaultName(scheme: SecurityScheme): string {
+  switch (scheme.type) {
+    case 'apiKey':
+      return `apiKey_${scheme.in}`;
+    case 'http':
+      return `${scheme.scheme}Auth`;
+    default:
+      return scheme.type;
+  }
+}
+
+/**
+ * Parses the text after `SecurityScheme`. Malformed parts are reported in `problems`
+ * instead of throwing.
+ */
+export function parseSecuritySchemeDeclaration(text: string): SecuritySchemeDeclaration {
+  const problems: DefinitionProblem[] = [];
+  const words = splitWords(text, problems);
+
+  // The first word is the name unless it already is the type
+  const explicitName = (findIgnoringCase(SECURITY_SCHEME_TYPES, words[0]) || words[0]?.includes('=')) ? undefined : words.shift();
+  const type = findIgnoringCase(SECURITY_SCHEME_TYPES, words[0]);
+  if (!type) {
+    problems.push({
+      message: words[0] ? `Unknown security scheme type "${words[0]}"` : 'Security scheme is missing its type',
+      suggestion: `Use one of: ${SECURITY_SCHEME_TYPES.join(', ')}`
+    });
+    return { name: explicitName || '', problems };
+  }
+  words.shift();
+
+  const options: Record<string, string> = {};
+  const extraWords: string[] = [];
+  words.forEach(word => {
+    const separator = word.indexOf('=');
+    if (separator < 0) {
+      extraWords.push(word);
+      return;
+    }
+
+    const key = word.slice(0, separator);
+    if (key !== 'description' && !TYPE_OPTIONS[type].includes(key)) {
+      problems.push({
+        message: `Unknown option "${key}" for ${type} security scheme`,
+        suggestion: `Use one of: ${[...TYPE_OPTIONS[type], 'description'].map(option => `${option}=`).join(', ')}`
+      });
+    } else if (options[key] !== undefined) {
+      problems.push({ message: `Option "${key}" is given more than once` });
+    } else {
+      options[key] = word.slice(separator + 1);
+    }
+  });
+
+  // Words after the type: the HTTP scheme or the OAuth flow
+  const takesWord = type === 'http' || type === 'oauth2';
+  const word = takesWord ? extraWords[0] : undefined;
+  const unexpected = extraWords.slice(takesWord ? 1 : 0);
+  const scheme: SecurityScheme = { type };
+  if (options.description) {
+    scheme.description = options.description;
+  }
+
+  if (type === 'apiKey') {
+    const location = options.in ?? 'header';
+    if (location !== 'header' && location !== 'query') {
+      problems.push({ message: `API key location must be "header" or "query", got "${location}"` });
+    }
+    scheme.name = options.name || 'X-API-Key';
+    scheme.in = location === 'query' ? 'query' : 'header';
+  } else if (type === 'http') {
+    if (!word) {
+      problems.push({ message: 'HTTP security scheme is missing its scheme', suggestion: 'Add "bearer" or "basic" after "http"' });
+    }
+    scheme.scheme = (word || 'bearer').toLowerCase();
+    if (options.bearerFormat) {
+      scheme.bearerFormat = options.bearerFormat;
+    }
+  } else if (type === 'oauth2') {
+    const flow = findIgnoringCase(OAUTH_FLOWS, word);
+    if (!flow) {
+      problems.push({
+        message: word ? `Unknown OAuth2 flow "${word}"` : 'OAuth2 security scheme is missing its flow',
+        suggestion: `Use one of: ${OAUTH_FLOWS.join(', ')}`
+      });
+    }
+    const flowName = flow || 'implicit';
+    if ((flowName === 'implicit' || flowName === 'authorizationCode') && !options.authUrl) {
+      problems.push({ message: `OAuth2 ${flowName} flow requires authUrl=` });
+    }
+    if (flowName !== 'implicit' && !options.tokenUrl) {
+      problems.push({ message: `OAuth2 ${flowName} flow requires tokenUrl=` });
+    }
+
+    scheme.flows = {
+      [flowName]: {
+        ...(options.authUrl && { authorizationUrl: options.authUrl }),
+        ...(options.tokenUrl && { tokenUrl: options.tokenUrl }),
+        ...(options.refreshUrl && { refreshUrl: options.refreshUrl }),
+        scopes: parseScopes(options.scopes || '')
+      }
+    };
+  } else {
+    if (!options.url) {
+      problems.push({ message: 'OpenID Connect security scheme requires url=' });
+    }
+    scheme.openIdConnectUrl = options.url || '';
+  }
+
+  unexpected.forEach(extra => {
+    problems.push({ message: `Unexpected "${extra}" in ${type} security scheme`, suggestion: 'Write options as key=value' });
+  });
+
+  return { name: explicitName || defaultName(scheme), scheme, problems };
+}
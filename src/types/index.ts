@@ -1,3 +1,4 @@
 export * from './mermaid';
 export * from './openapi';
+export * from './swagger';
 export * from './validation';
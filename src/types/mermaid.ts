@@ -1,7 +1,16 @@
+import type { SecurityScheme } from './openapi';
+
+export type BlockKind = 'alt' | 'opt' | 'loop' | 'par' | 'critical' | 'break' | 'rect';
+
+export type BlockKeyword = BlockKind | 'else' | 'and' | 'option' | 'end';
+
 export interface MermaidToken {
-  type: 'participant' | 'request' | 'response' | 'note';
+  type: 'participant' | 'request' | 'response' | 'note' | 'block' | 'schema';
   line: number;
+  endLine?: number;
   name?: string;
+  alias?: string;
+  participantKind?: ParticipantKind;
   source?: string;
   target?: string;
   method?: string;
@@ -9,15 +18,44 @@ export interface MermaidToken {
   summary?: string;
   status?: string;
   description?: string;
+  body?: string;
   participants?: string[];
   content?: string;
   noteType?: 'body' | 'info';
+  keyword?: BlockKeyword;
+  label?: string;
+}
+
+export type ParticipantKind = 'participant' | 'actor';
+
+export interface Participant {
+  id: string;
+  label: string;
+  kind: ParticipantKind;
 }
 
 export interface MermaidAST {
   participants: string[];
+  participantTable?: Participant[];
   interactions: Interaction[];
   notes: (Note | ParserWarning)[];
+  blocks?: Block[];
+  schemas?: Record<string, unknown>;
+  securitySchemes?: Record<string, SecurityScheme>;
+}
+
+export interface Block {
+  kind: BlockKind;
+  line: number;
+  endLine?: number;
+  branches: BlockBranch[];
+}
+
+export interface BlockBranch {
+  label?: string;
+  line: number;
+  interactions: Interaction[];
+  blocks: Block[];
 }
 
 export interface Interaction {
@@ -31,11 +69,14 @@ export interface Interaction {
   summary?: string;
   line: number;
   note?: Note;
-  response?: {
-    status?: string;
-    description?: string;
-  };
+  response?: InteractionResponse;
+  responses?: InteractionResponse[];
   body?: unknown;
+  requestBody?: unknown;
+  responseBody?: unknown;
+  bodySchema?: string;
+  requestBodySchema?: string;
+  responseBodySchema?: string;
   contextPath?: string;
   contextMethod?: string;
   contextServer?: string;
@@ -46,6 +87,21 @@ export interface Interaction {
   responseMediaType?: string;
   operationId?: string;
   deprecated?: boolean;
+  parameters?: ParameterDeclaration[];
+}
+
+export interface ParameterDeclaration {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  definition?: string;
+}
+
+export interface InteractionResponse {
+  status?: string;
+  description?: string;
+  body?: unknown;
+  bodySchema?: string;
+  line?: number;
 }
 
 export interface MermaidExternalDocumentation {
@@ -1,18 +1,40 @@
+import type { ValidationError } from './validation';
+
 export interface SchemaObject {
-  type?: string;
+  type?: string | string[];
   format?: string;
   properties?: Record<string, SchemaObject>;
   required?: string[];
   example?: unknown;
+  examples?: unknown[];
+  nullable?: boolean;
   items?: SchemaObject;
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  allOf?: SchemaObject[];
+  discriminator?: Discriminator;
   minimum?: number;
   maximum?: number;
   minLength?: number;
   maxLength?: number;
+  pattern?: string;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  enum?: unknown[];
+  default?: unknown;
+  readOnly?: boolean;
+  writeOnly?: boolean;
   description?: string;
   $ref?: string;
 }
 
+export interface Discriminator {
+  propertyName: string;
+  mapping?: Record<string, string>;
+}
+
 export interface SecurityScheme {
   type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
   description?: string;
@@ -84,6 +106,10 @@ export interface PathItem {
   [method: string]: Operation;
 }
 
+export type PathItemObject = PathItem & {
+  parameters?: Parameter[];
+};
+
 export interface OpenApiDoc {
   openapi: string;
   info: {
@@ -92,6 +118,7 @@ export interface OpenApiDoc {
     description?: string;
   };
   paths: Record<string, PathItem>;
+  webhooks?: Record<string, PathItem>;
   components?: {
     securitySchemes?: Record<string, SecurityScheme>;
     schemas?: Record<string, SchemaObject>;
@@ -100,6 +127,7 @@ export interface OpenApiDoc {
     examples?: Record<string, unknown>;
     requestBodies?: Record<string, RequestBody>;
   };
+  security?: Record<string, string[]>[];
   tags?: Tag[];
 }
 
@@ -110,3 +138,21 @@ export interface Tag {
 }
 
 export type MultiSpecDocs = Record<string, OpenApiDoc>;
+
+export type OpenApiVersion = '3.0.0' | '3.1.0';
+
+export interface GeneratorOptions {
+  includeActors?: boolean;
+  openapiVersion?: OpenApiVersion;
+  detectFormats?: boolean;
+}
+
+export interface SpecMergeResult {
+  specs: MultiSpecDocs;
+  errors: ValidationError[];
+}
+
+export interface MermaidImport {
+  diagram: string;
+  warnings: ValidationError[];
+}
@@ -0,0 +1,105 @@
+import type { ExternalDocumentation, Tag } from './openapi';
+import type { ValidationError } from './validation';
+
+export interface SwaggerSchema {
+  type?: string;
+  format?: string;
+  properties?: Record<string, SwaggerSchema>;
+  required?: string[];
+  example?: unknown;
+  items?: SwaggerSchema;
+  allOf?: SwaggerSchema[];
+  discriminator?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  enum?: unknown[];
+  default?: unknown;
+  readOnly?: boolean;
+  description?: string;
+  $ref?: string;
+  'x-nullable'?: boolean;
+}
+
+export type SwaggerParameterKeyword =
+  'type' | 'format' | 'items' | 'minimum' | 'maximum' | 'minLength' | 'maxLength' | 'pattern' | 'multipleOf' |
+  'minItems' | 'maxItems' | 'uniqueItems' | 'enum' | 'default';
+
+export interface SwaggerParameter extends Pick<SwaggerSchema, SwaggerParameterKeyword> {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'body' | 'formData';
+  required?: boolean;
+  description?: string;
+  schema?: SwaggerSchema;
+}
+
+export interface SwaggerResponse {
+  description: string;
+  schema?: SwaggerSchema;
+  examples?: Record<string, unknown>;
+}
+
+export interface SwaggerOperation {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+  consumes?: string[];
+  produces?: string[];
+  parameters?: SwaggerParameter[];
+  responses: Record<string, SwaggerResponse>;
+  security?: Record<string, string[]>[];
+  externalDocs?: ExternalDocumentation;
+  deprecated?: boolean;
+}
+
+export interface SwaggerPathItem {
+  [method: string]: SwaggerOperation;
+}
+
+export interface SwaggerSecurityScheme {
+  type: 'basic' | 'apiKey' | 'oauth2';
+  description?: string;
+  name?: string;
+  in?: 'header' | 'query';
+  flow?: 'implicit' | 'password' | 'application' | 'accessCode';
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+export interface SwaggerDoc {
+  swagger: '2.0';
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  paths: Record<string, SwaggerPathItem>;
+  definitions?: Record<string, SwaggerSchema>;
+  securityDefinitions?: Record<string, SwaggerSecurityScheme>;
+  security?: Record<string, string[]>[];
+  tags?: Tag[];
+}
+
+export type MultiSwaggerDocs = Record<string, SwaggerDoc>;
+
+export interface SwaggerExportOptions {
+  host?: string;
+  basePath?: string;
+  schemes?: ('http' | 'https' | 'ws' | 'wss')[];
+}
+
+export interface SwaggerExport {
+  specs: MultiSwaggerDocs;
+  warnings: ValidationError[];
+}
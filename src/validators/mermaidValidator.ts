@@ -1,12 +1,24 @@
 import { tokenize } from '@/parser/mermaidLexer';
-import type { MermaidToken } from '@/types';
+import { parse } from '@/parser/mermaidParser';
+import { findOperationConflicts } from '@/generators/operationConflicts';
+import { areSchemasEqual, generateBodySchema } from '@/generators/schemaGenerator';
+import { BODY_DIRECTIVES, extractBodyJson, getJsonErrorLineOffset, getJsonLineOffset } from '@/parser/noteBody';
+import { parseSchemaDefinition } from '@/parser/schemaDefinition';
+import { parseSecuritySchemeDeclaration, SECURITY_SCHEME_PATTERN } from '@/parser/securityScheme';
+import type { Interaction, MermaidAST, MermaidToken, SchemaObject } from '@/types';
 import type { ValidationError, ValidationResult } from '@/types/validation';
 
 // Patterns for validation
 const REQUEST_PATTERN = /^\s*([^-]+?)\s*->>\s*([^:]+?):\s?([A-Za-z]+)\s+([^\s]+)(.*)/i;
 const RESPONSE_PATTERN = /^\s*([^-]+?)\s*-->>\s*([^:]+?):\s?(\d{3})(.*)/i;
-const PARTICIPANT_PATTERN = /^\s*participant\s+([^\s]+)/i;
+const PARTICIPANT_PATTERN = /^\s*(participant|actor)\s+([^\s]+)/i;
 const NOTE_PATTERN = /^\s*Note\s+over\s+([^:]+):\s*(.+)/i;
+const BLOCK_PATTERN = /^\s*(alt|else|opt|loop|par|and|critical|option|break|rect|end)(?:\s|$)/i;
+const DIAGRAM_HEADER_PATTERN = /^\s*(sequenceDiagram|autonumber)\s*$/;
+const SCHEMA_NAME_PATTERN = /^[A-Za-z][\w.-]*$/;
+// Names `Security:` lines map to when the diagram does not declare the scheme
+const BUILT_IN_SECURITY_SCHEMES = ['bearerAuth', 'basicAuth', 'apiKey_header', 'apiKey_query', 'oauth2', 'openIdConnect'];
+const PARAMETER_DECLARATION_PATTERN = /(?:^|\n)\s*(?:Header|Cookie|Query|Path):\s*\S+[^\S\n]*(.*?)(?=\n|$)/gi;
 
 /**
  * Validates Mermaid diagram syntax before parsing.
@@ -32,14 +44,23 @@ export function validateMermaidSyntax(input: string): ValidationResult {
   }
 
   const lines = input.split('\n');
+  const tokens = tokenize(input);
+
+  // Lines that continue a multi-line note body
+  const continuationLines = new Set<number>();
+  tokens.forEach((token) => {
+    for (let lineNum = token.line + 1; lineNum <= (token.endLine || token.line); lineNum++) {
+      continuationLines.add(lineNum);
+    }
+  });
 
   // First pass: validate raw lines for syntax errors
   lines.forEach((line, index) => {
     const lineNum = index + 1;
     const trimmed = line.trim();
 
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith('%%')) {
+    // Skip empty lines, comments, the diagram header and note body continuations
+    if (!trimmed || trimmed.startsWith('%%') || DIAGRAM_HEADER_PATTERN.test(trimmed) || continuationLines.has(lineNum)) {
       return;
     }
 
@@ -48,15 +69,16 @@ export function validateMermaidSyntax(input: string): ValidationResult {
     const isResponse = RESPONSE_PATTERN.test(trimmed);
     const isParticipant = PARTICIPANT_PATTERN.test(trimmed);
     const isNote = NOTE_PATTERN.test(trimmed);
+    const isBlock = BLOCK_PATTERN.test(trimmed);
 
-    if (!isRequest && !isResponse && !isParticipant && !isNote) {
+    if (!isRequest && !isResponse && !isParticipant && !isNote && !isBlock) {
       // Line doesn't match any pattern - it's malformed
       warnings.push({
         source: 'mermaid',
         severity: 'warning',
         line: lineNum,
         message: 'Line does not match any known Mermaid pattern',
-        suggestion: 'Check the syntax for requests, responses, participants, or notes',
+        suggestion: 'Check the syntax for requests, responses, participants, notes, or blocks',
         context: trimmed,
       });
     }
@@ -94,7 +116,6 @@ export function validateMermaidSyntax(input: string): ValidationResult {
     }
   });
 
-  const tokens = tokenize(input);
   const participants = new Set<string>();
   const requestMap = new Map<number, MermaidToken>(); // line -> request token
   const responseTokens: MermaidToken[] = [];
@@ -128,10 +149,35 @@ export function validateMermaidSyntax(input: string): ValidationResult {
   const participantErrors = validateParticipantNames(tokens);
   errors.push(...participantErrors);
 
+  // Validate alt/opt/loop/par/critical block structure
+  const blockErrors = validateBlocks(tokens);
+  errors.push(...blockErrors);
+
+  // Validate schema definitions (%% @schema) and named bodies (Body<User>:)
+  const schemaNameResult = validateSchemaNames(tokens);
+  errors.push(...schemaNameResult.errors);
+  warnings.push(...schemaNameResult.warnings);
+
+  // Validate definition strings in bodies, schema definitions and parameter notes
+  errors.push(...validateDefinitions(tokens));
+
+  // Interactions as the generator sees them, for checks across notes and requests
+  const ast = parse(tokens);
+
+  // Validate security scheme declarations (SecurityScheme ...) and the Security: lines using them
+  const securitySchemeResult = validateSecuritySchemes(tokens, ast);
+  errors.push(...securitySchemeResult.errors);
+  warnings.push(...securitySchemeResult.warnings);
+
   // Check for orphaned notes
   const orphanedNoteWarnings = checkOrphanedNotes(tokens, requestMap);
   warnings.push(...orphanedNoteWarnings);
 
+  // Check that repeated operations describe the same thing
+  if (errors.length === 0) {
+    warnings.push(...checkDuplicateOperations(ast));
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -240,7 +286,7 @@ function validateRequestToken(
       severity: 'error',
       line: token.line,
       message: `Unknown source participant: "${token.source}"`,
-      suggestion: 'Declare the participant first using "participant <name>"',
+      suggestion: 'Declare the participant first using "participant <name>" or "actor <name>"',
       context: token.source,
     });
   }
@@ -251,7 +297,7 @@ function validateRequestToken(
       severity: 'error',
       line: token.line,
       message: `Unknown target participant: "${token.target}"`,
-      suggestion: 'Declare the participant first using "participant <name>"',
+      suggestion: 'Declare the participant first using "participant <name>" or "actor <name>"',
       context: token.target,
     });
   }
@@ -292,9 +338,34 @@ function validateResponseToken(token: MermaidToken): ValidationError[] {
     }
   }
 
+  // Validate inline JSON payload
+  if (token.body) {
+    try {
+      JSON.parse(token.body);
+    } catch (error) {
+      errors.push({
+        source: 'mermaid',
+        severity: 'error',
+        line: token.line,
+        message: `Invalid JSON in response body: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        suggestion: 'Ensure JSON is properly formatted with matching braces and quotes',
+        context: token.body,
+      });
+    }
+  }
+
   return errors;
 }
 
+/**
+ * Checks for notes that only declare security schemes, which belong to the whole
+ * diagram rather than to the participant they are written over
+ */
+function isSecuritySchemeNote(token: MermaidToken): boolean {
+  return !!token.content && token.content.replace(/\\n/g, '\n').split('\n')
+    .every((contentLine) => SECURITY_SCHEME_PATTERN.test(contentLine));
+}
+
 /**
  * Validates note token
  */
@@ -304,8 +375,8 @@ function validateNoteToken(
 ): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  // Validate note participants exist
-  if (token.participants) {
+  // Validate note participants exist (security scheme declarations may be written over any name)
+  if (token.participants && !isSecuritySchemeNote(token)) {
     token.participants.forEach((participant) => {
       const participantDeclarations = allTokens.filter(
         (t) => t.type === 'participant' && t.name === participant
@@ -316,15 +387,15 @@ function validateNoteToken(
           severity: 'warning',
           line: token.line,
           message: `Note references undefined participant: "${participant}"`,
-          suggestion: 'Declare the participant first using "participant <name>"',
+          suggestion: 'Declare the participant first using "participant <name>" or "actor <name>"',
           context: participant,
         });
       }
     });
   }
 
-  // Validate body note JSON format
-  if (token.noteType === 'body' && token.content) {
+  // Validate body note JSON format (Body:, Request-Body: and Response-Body: may start any line of a note)
+  if (token.content) {
     const jsonErrors = validateBodyNoteJson(token.content, token.line);
     errors.push(...jsonErrors);
   }
@@ -400,30 +471,323 @@ function validatePath(path: string, line: number): ValidationError[] {
 function validateBodyNoteJson(content: string, line: number): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  // Extract JSON from "Body: { ... }" format
-  const jsonMatch = content.match(/Body:\s*(.+)/s);
-  if (!jsonMatch) {
-    return errors;
+  BODY_DIRECTIVES.forEach((directive) => {
+    // Extract JSON from "Body: { ... }" format (may span several lines)
+    const payload = extractBodyJson(content, directive);
+    if (!payload) {
+      return;
+    }
+
+    // Named directives without a payload reference a schema defined elsewhere
+    if (payload.schemaName && !payload.json) {
+      return;
+    }
+
+    const jsonString = payload.json;
+
+    try {
+      JSON.parse(jsonString);
+    } catch (error) {
+      errors.push({
+        source: 'mermaid',
+        severity: 'error',
+        line: line + getJsonErrorLineOffset(jsonString, error, payload.escapedNewlines),
+        message: `Invalid JSON in ${directive === 'Body' ? 'body' : directive} note: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        suggestion: 'Ensure JSON is properly formatted with matching braces and quotes',
+        context: jsonString,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Collects the string values of a parsed JSON payload, at any depth
+ */
+function collectStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectStrings(item, strings));
   }
+  return strings;
+}
 
-  const jsonString = jsonMatch[1].trim();
+/**
+ * Reports malformed definition strings (`"integer, min:x"`) in note bodies, inline
+ * response payloads, `%% @schema` definitions and parameter notes. Payloads that
+ * are not valid JSON are reported elsewhere.
+ */
+function validateDefinitions(tokens: MermaidToken[]): ValidationError[] {
+  const errors: ValidationError[] = [];
 
-  try {
-    JSON.parse(jsonString);
-  } catch (error) {
-    errors.push({
-      source: 'mermaid',
-      severity: 'error',
-      line,
-      message: `Invalid JSON in body note: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      suggestion: 'Ensure JSON is properly formatted with matching braces and quotes',
-      context: jsonString,
+  const checkDefinition = (definition: string, line: number) => {
+    parseSchemaDefinition(definition)?.problems.forEach((problem) => {
+      errors.push({
+        source: 'mermaid',
+        severity: 'error',
+        line,
+        message: problem.message,
+        suggestion: problem.suggestion,
+        context: definition,
+      });
     });
-  }
+  };
+
+  const checkPayload = (json: string, line: number, escapedNewlines?: number[]) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(json);
+    } catch {
+      return;
+    }
+    collectStrings(payload).forEach((definition) => {
+      // Point at the line of the payload holding the string
+      const index = json.indexOf(JSON.stringify(definition));
+      checkDefinition(definition, line + (index < 0 ? 0 : getJsonLineOffset(json, index, escapedNewlines)));
+    });
+  };
+
+  tokens.forEach((token) => {
+    if ((token.type === 'response' || token.type === 'schema') && token.body) {
+      checkPayload(token.body, token.line);
+    }
+    if (token.type !== 'note' || !token.content) {
+      return;
+    }
+
+    BODY_DIRECTIVES.forEach((directive) => {
+      const payload = extractBodyJson(token.content!, directive);
+      if (payload?.json) {
+        checkPayload(payload.json, token.line, payload.escapedNewlines);
+      }
+    });
+
+    // Parameter declarations: "Query: limit integer, min:1"
+    token.content.split('\n').forEach((contentLine, offset) => {
+      for (const match of contentLine.replace(/\\n/g, '\n').matchAll(PARAMETER_DECLARATION_PATTERN)) {
+        if (match[1].trim()) {
+          checkDefinition(match[1].trim(), token.line + offset);
+        }
+      }
+    });
+  });
 
   return errors;
 }
 
+/**
+ * Checks schema definitions (`%% @schema User {...}`) and named body directives
+ * (`Body<User>:`): names must be valid component names, references must name a
+ * schema defined somewhere in the diagram, a name defined more than once should
+ * describe the same shape each time, and definitions should be used
+ */
+function validateSchemaNames(tokens: MermaidToken[]): Pick<ValidationResult, 'errors' | 'warnings'> {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const definitions = new Map<string, { line: number; schema: SchemaObject }>();
+  const references: { name: string; line: number }[] = [];
+  const usedNames = new Set<string>();
+
+  const checkName = (name: string, line: number, context: string) => {
+    if (!SCHEMA_NAME_PATTERN.test(name)) {
+      errors.push({
+        source: 'mermaid',
+        severity: 'error',
+        line,
+        message: `Invalid schema name: "${name}"`,
+        suggestion: 'Start schema names with a letter and use only letters, digits, ".", "-" and "_"',
+        context,
+      });
+    }
+  };
+
+  const define = (name: string, line: number, schema: SchemaObject, context: string) => {
+    const definition = definitions.get(name);
+    if (!definition) {
+      definitions.set(name, { line, schema });
+    } else if (!areSchemasEqual(definition.schema, schema)) {
+      warnings.push({
+        source: 'mermaid',
+        severity: 'warning',
+        line,
+        message: `Schema "${name}" is defined again with a different shape`,
+        suggestion: `Use the same shape or refer to the schema with Body<${name}>:; the definition at line ${definition.line} is used`,
+        context,
+      });
+    }
+  };
+
+  // Diagram-level definitions come first, as they win over named bodies
+  tokens.forEach((token) => {
+    if (token.type !== 'schema') {
+      return;
+    }
+    checkName(token.name!, token.line, token.name!);
+
+    try {
+      define(token.name!, token.line, generateBodySchema(JSON.parse(token.body!)), token.body!);
+    } catch (error) {
+      errors.push({
+        source: 'mermaid',
+        severity: 'error',
+        line: token.line + getJsonErrorLineOffset(token.body!, error),
+        message: `Invalid JSON in schema definition "${token.name}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+        suggestion: 'Ensure JSON is properly formatted with matching braces and quotes',
+        context: token.body,
+      });
+    }
+  });
+  const diagramDefinitions = new Map(definitions);
+
+  tokens.forEach((token) => {
+    if (token.type !== 'note' || !token.content) {
+      return;
+    }
+
+    for (const match of token.content.matchAll(/(?:Request-|Response-)?Body<([^>]*)>:/gi)) {
+      checkName(match[1].trim(), token.line, match[0]);
+    }
+
+    BODY_DIRECTIVES.forEach((directive) => {
+      const payload = extractBodyJson(token.content!, directive);
+      if (!payload?.schemaName) {
+        return;
+      }
+      usedNames.add(payload.schemaName);
+      if (!payload.json) {
+        references.push({ name: payload.schemaName, line: token.line });
+        return;
+      }
+
+      try {
+        define(payload.schemaName, token.line, generateBodySchema(JSON.parse(payload.json)), payload.json);
+      } catch {
+        // Invalid JSON is reported with the body note
+      }
+    });
+  });
+
+  references.forEach(({ name, line }) => {
+    if (!definitions.has(name)) {
+      errors.push({
+        source: 'mermaid',
+        severity: 'error',
+        line,
+        message: `Unknown schema name: "${name}"`,
+        suggestion: `Define the schema with %% @schema ${name} {...} or a body such as Body<${name}>: {...}`,
+        context: name,
+      });
+    }
+  });
+
+  diagramDefinitions.forEach(({ line }, name) => {
+    if (!usedNames.has(name)) {
+      warnings.push({
+        source: 'mermaid',
+        severity: 'warning',
+        line,
+        message: `Schema "${name}" is defined but never used`,
+        suggestion: `Refer to it with Body<${name}>:, Request-Body<${name}>: or Response-Body<${name}>:, or remove the definition`,
+        context: name,
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
+
+/**
+ * Checks security scheme declarations (`SecurityScheme oauth2 authorizationCode ...`):
+ * declarations must be well-formed, a name should be declared once and used, and
+ * `Security:` lines should name a declared or built-in scheme
+ */
+function validateSecuritySchemes(tokens: MermaidToken[], ast: MermaidAST): Pick<ValidationResult, 'errors' | 'warnings'> {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const declarations = new Map<string, number>();
+
+  tokens.forEach((token) => {
+    if (token.type !== 'note' || !token.content) {
+      return;
+    }
+
+    // Literal "\n" separates declarations on the same diagram line
+    const contentLines = token.content.split('\n').flatMap((contentLine, offset) =>
+      contentLine.split('\\n').map((part) => ({ contentLine: part, line: token.line + offset })));
+    contentLines.forEach(({ contentLine, line }) => {
+      const match = contentLine.match(SECURITY_SCHEME_PATTERN);
+      if (!match) {
+        return;
+      }
+      const declaration = parseSecuritySchemeDeclaration(match[1]);
+
+      declaration.problems.forEach((problem) => {
+        errors.push({
+          source: 'mermaid',
+          severity: 'error',
+          line,
+          message: problem.message,
+          suggestion: problem.suggestion,
+          context: contentLine.trim(),
+        });
+      });
+      if (!declaration.scheme) {
+        return;
+      }
+
+      const firstLine = declarations.get(declaration.name);
+      if (firstLine === undefined) {
+        declarations.set(declaration.name, line);
+      } else {
+        warnings.push({
+          source: 'mermaid',
+          severity: 'warning',
+          line,
+          message: `Security scheme "${declaration.name}" is declared more than once`,
+          suggestion: `Remove or rename this declaration; the declaration at line ${firstLine} is used`,
+          context: contentLine.trim(),
+        });
+      }
+    });
+  });
+
+  const usedNames = new Set<string>();
+  ast.interactions.forEach((interaction) => {
+    // Requirements combine schemes with "+"; "none" names no scheme
+    interaction.security?.flatMap((requirement) => (requirement === 'none' ? [] : requirement.split('+'))).forEach((security) => {
+      const [name] = security.split(':');
+      usedNames.add(name);
+      if (!declarations.has(name) && !BUILT_IN_SECURITY_SCHEMES.includes(name)) {
+        warnings.push({
+          source: 'mermaid',
+          severity: 'warning',
+          line: interaction.line,
+          message: `Unknown security scheme: "${name}"`,
+          suggestion: `Declare it in a note such as "SecurityScheme ${name} apiKey name=X-API-Key", or use one of: ${BUILT_IN_SECURITY_SCHEMES.join(', ')}`,
+          context: security,
+        });
+      }
+    });
+  });
+
+  declarations.forEach((line, name) => {
+    if (!usedNames.has(name)) {
+      warnings.push({
+        source: 'mermaid',
+        severity: 'warning',
+        line,
+        message: `Security scheme "${name}" is declared but never used`,
+        suggestion: `Refer to it with "Security: ${name}", or remove the declaration`,
+        context: name,
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
+
 /**
  * Validates responses match to requests
  */
@@ -493,6 +857,59 @@ function validateParticipantNames(tokens: MermaidToken[]): ValidationError[] {
   return errors;
 }
 
+/**
+ * Validates that blocks are balanced and branch keywords belong to their block
+ */
+function validateBlocks(tokens: MermaidToken[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const branchBlocks: Record<string, string> = { else: 'alt', and: 'par', option: 'critical' };
+  const openBlocks: MermaidToken[] = [];
+
+  tokens.forEach((token) => {
+    if (token.type !== 'block' || !token.keyword) return;
+
+    if (token.keyword === 'end') {
+      if (!openBlocks.pop()) {
+        errors.push({
+          source: 'mermaid',
+          severity: 'error',
+          line: token.line,
+          message: '"end" without a matching block',
+          suggestion: 'Remove the extra "end" or open a block with alt, opt, loop, par, or critical',
+          context: token.keyword,
+        });
+      }
+    } else if (branchBlocks[token.keyword]) {
+      const current = openBlocks[openBlocks.length - 1];
+      if (!current || current.keyword !== branchBlocks[token.keyword]) {
+        errors.push({
+          source: 'mermaid',
+          severity: 'error',
+          line: token.line,
+          message: `"${token.keyword}" outside of a "${branchBlocks[token.keyword]}" block`,
+          suggestion: `Use "${token.keyword}" only inside a "${branchBlocks[token.keyword]}" block`,
+          context: token.label ? `${token.keyword} ${token.label}` : token.keyword,
+        });
+      }
+    } else {
+      openBlocks.push(token);
+    }
+  });
+
+  openBlocks.forEach((token) => {
+    errors.push({
+      source: 'mermaid',
+      severity: 'error',
+      line: token.line,
+      message: `Unclosed "${token.keyword}" block`,
+      suggestion: 'Close the block with "end"',
+      context: token.label ? `${token.keyword} ${token.label}` : token.keyword,
+    });
+  });
+
+  return errors;
+}
+
 /**
  * Checks for notes that aren't attached to any operation
  */
@@ -503,7 +920,8 @@ function checkOrphanedNotes(
   const warnings: ValidationError[] = [];
 
   tokens.forEach((token) => {
-    if (token.type === 'note' && token.line) {
+    // Security scheme declarations describe the whole diagram
+    if (token.type === 'note' && token.line && !isSecuritySchemeNote(token)) {
       // Check if there's a request before this note
       let hasPrecedingRequest = false;
       for (const [line] of requestMap) {
@@ -528,3 +946,42 @@ function checkOrphanedNotes(
 
   return warnings;
 }
+
+/**
+ * Warns when the same METHOD /path on a server is described more than once in
+ * ways that cannot be merged, e.g. with different summaries or body shapes.
+ * Each interaction is compared with the first one on the same server, method and path.
+ */
+function checkDuplicateOperations(ast: MermaidAST): ValidationError[] {
+  const warnings: ValidationError[] = [];
+  const firstOccurrences = new Map<string, Interaction>();
+
+  ast.interactions.forEach((interaction) => {
+    const { to, method, path: rawPath } = interaction;
+    if (!method || !rawPath || !to) {
+      return;
+    }
+
+    const [path] = rawPath.split('?');
+    const key = `${to} ${method.toLowerCase()} ${path}`;
+    const first = firstOccurrences.get(key);
+    if (!first) {
+      firstOccurrences.set(key, interaction);
+      return;
+    }
+
+    const conflicts = findOperationConflicts(first, interaction);
+    if (conflicts.length > 0) {
+      warnings.push({
+        source: 'mermaid',
+        severity: 'warning',
+        line: interaction.line,
+        message: `Duplicate operation ${method.toUpperCase()} ${path} at lines ${first.line} and ${interaction.line} disagrees on: ${conflicts.join(', ')}`,
+        suggestion: `Describe the operation the same way both times; the definition at line ${first.line} is used`,
+        context: to,
+      });
+    }
+  });
+
+  return warnings;
+}
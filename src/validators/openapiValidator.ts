@@ -1,4 +1,4 @@
-import type { OpenApiDoc, MultiSpecDocs } from '@/types/openapi';
+import type { OpenApiDoc, MultiSpecDocs, PathItem, SchemaObject } from '@/types/openapi';
 import type { ValidationError, ValidationResult } from '@/types/validation';
 
 // Valid HTTP methods according to OpenAPI 3.0 specification
@@ -16,8 +16,15 @@ const VALID_HTTP_METHODS = new Set([
 // Valid parameter locations
 const VALID_PARAMETER_LOCATIONS = new Set(['path', 'query', 'header', 'cookie']);
 
+// Supported OpenAPI versions (3.0.x and 3.1.x)
+const SUPPORTED_VERSION_PATTERN = /^3\.[01]\.\d+$/;
+
+// Keywords combining several schemas
+const COMPOSITION_KEYWORDS = ['oneOf', 'anyOf', 'allOf'] as const;
+
 /**
- * Validates an OpenAPI specification for compliance with OpenAPI 3.0.0.
+ * Validates an OpenAPI specification for compliance with OpenAPI 3.0 or 3.1,
+ * depending on its "openapi" field.
  * This is a post-generation validation step that ensures the generated spec is valid.
  *
  * @param spec - The OpenAPI specification to validate
@@ -58,6 +65,25 @@ export function validateOpenApiSpec(spec: OpenApiDoc): ValidationResult {
     warnings.push(...pathsWarnings);
   }
 
+  // Validate webhooks if present (their operations follow the same rules as paths)
+  if (spec.webhooks && typeof spec.webhooks === 'object') {
+    const webhookErrors = validatePaths(spec, spec.webhooks);
+    errors.push(...webhookErrors);
+  }
+
+  // Validate keywords that differ between OpenAPI 3.0 and 3.1
+  const keywordResult = validateVersionKeywords(spec);
+  errors.push(...keywordResult.errors);
+  warnings.push(...keywordResult.warnings);
+
+  // Validate oneOf/anyOf/allOf and discriminators
+  errors.push(...validateCompositions(spec));
+
+  // Validate that enum, default, ranges and patterns of each schema agree
+  const constraintResult = validateSchemaConstraints(spec);
+  errors.push(...constraintResult.errors);
+  warnings.push(...constraintResult.warnings);
+
   // Validate components if present
   if (spec.components && typeof spec.components === 'object') {
     const circularRefErrors = validateCircularReferences(spec);
@@ -105,7 +131,7 @@ export function validateOpenApiSpecs(specs: MultiSpecDocs): ValidationResult {
     // Check for operations and operation IDs
     if (spec.paths) {
       let hasOperations = false;
-      for (const [, pathItem] of Object.entries(spec.paths)) {
+      for (const pathItem of [...Object.values(spec.paths), ...Object.values(spec.webhooks || {})]) {
         if (pathItem && typeof pathItem === 'object') {
           const methods = Object.keys(pathItem).filter((key) => VALID_HTTP_METHODS.has(key));
           if (methods.length > 0) {
@@ -197,13 +223,23 @@ function validateRequiredFields(spec: OpenApiDoc): ValidationError[] {
     }
   }
 
+  // OpenAPI 3.1 only requires one of paths, components or webhooks
   if (!spec.paths) {
-    errors.push({
-      source: 'openapi',
-      severity: 'error',
-      message: 'Missing required field: "paths"',
-      suggestion: 'Add a "paths" object defining your API endpoints',
-    });
+    if (!isOpenApi31(spec)) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: 'Missing required field: "paths"',
+        suggestion: 'Add a "paths" object defining your API endpoints',
+      });
+    } else if (!spec.components && !spec.webhooks) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: 'Missing required field: one of "paths", "components" or "webhooks"',
+        suggestion: 'Add a "paths" object defining your API endpoints',
+      });
+    }
   }
 
   return errors;
@@ -225,12 +261,12 @@ function validateOpenApiVersion(spec: OpenApiDoc): ValidationError[] {
         context: typeof version,
         suggestion: 'The "openapi" field must be a string',
       });
-    } else if (!version.startsWith('3.')) {
+    } else if (!SUPPORTED_VERSION_PATTERN.test(version)) {
       errors.push({
         source: 'openapi',
         severity: 'error',
         message: `Unsupported OpenAPI version: "${version}"`,
-        suggestion: 'Use OpenAPI 3.0.x (e.g., "3.0.0")',
+        suggestion: 'Use OpenAPI 3.0.x (e.g., "3.0.0") or 3.1.x (e.g., "3.1.0")',
       });
     }
   }
@@ -239,12 +275,327 @@ function validateOpenApiVersion(spec: OpenApiDoc): ValidationError[] {
 }
 
 /**
- * Validates all paths and their operations.
+ * Checks whether a spec targets the OpenAPI 3.1 family.
+ */
+function isOpenApi31(spec: OpenApiDoc): boolean {
+  return typeof spec.openapi === 'string' && spec.openapi.startsWith('3.1.');
+}
+
+/**
+ * Collects every schema of a spec (including nested properties, array items and oneOf/anyOf/allOf parts)
+ * together with a description of where it was found.
+ */
+function collectSchemas(spec: OpenApiDoc): { schema: SchemaObject; context: string }[] {
+  const schemas: { schema: SchemaObject; context: string }[] = [];
+
+  const collect = (schema: SchemaObject | undefined, context: string): void => {
+    if (!schema || typeof schema !== 'object') {
+      return;
+    }
+    schemas.push({ schema, context });
+    Object.entries(schema.properties || {}).forEach(([name, property]) => collect(property, `${context}.${name}`));
+    collect(schema.items, `${context}[]`);
+    COMPOSITION_KEYWORDS.forEach(keyword => {
+      const variants = schema[keyword];
+      if (Array.isArray(variants)) {
+        variants.forEach((variant, index) => collect(variant, `${context}.${keyword}[${index}]`));
+      }
+    });
+  };
+
+  const pathItems: [string, PathItem][] = [
+    ...Object.entries(spec.paths || {}),
+    ...Object.entries(spec.webhooks || {}),
+  ];
+
+  for (const [path, pathItem] of pathItems) {
+    if (!pathItem || typeof pathItem !== 'object') {
+      continue;
+    }
+
+    for (const [method, operation] of Object.entries(pathItem)) {
+      if (!VALID_HTTP_METHODS.has(method) || !operation || typeof operation !== 'object') {
+        continue;
+      }
+
+      const context = `${path} (${method})`;
+      if (Array.isArray(operation.parameters)) {
+        operation.parameters.forEach((param) => collect(param?.schema, `${context} - parameter ${param?.name}`));
+      }
+      Object.values(operation.requestBody?.content || {}).forEach((mediaType) => collect(mediaType?.schema, `${context} - request body`));
+      Object.entries(operation.responses || {}).forEach(([status, response]) => {
+        Object.values(response?.content || {}).forEach((mediaType) => collect(mediaType?.schema, `${context} - ${status}`));
+      });
+    }
+  }
+
+  Object.entries(spec.components?.schemas || {}).forEach(([name, schema]) => collect(schema, `#/components/schemas/${name}`));
+
+  return schemas;
+}
+
+/**
+ * Validates keywords whose support differs between OpenAPI 3.0 and 3.1:
+ * 3.0 uses "nullable" and a single "example", 3.1 uses type arrays,
+ * "examples" arrays and allows top-level "webhooks".
  */
-function validatePaths(spec: OpenApiDoc): ValidationError[] {
+function validateVersionKeywords(spec: OpenApiDoc): ValidationResult {
   const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
 
-  for (const [path, pathItem] of Object.entries(spec.paths)) {
+  if (typeof spec.openapi !== 'string' || !SUPPORTED_VERSION_PATTERN.test(spec.openapi)) {
+    return { valid: true, errors, warnings };
+  }
+
+  const is31 = isOpenApi31(spec);
+
+  if (!is31 && spec.webhooks) {
+    errors.push({
+      source: 'openapi',
+      severity: 'error',
+      message: '"webhooks" requires OpenAPI 3.1',
+      context: spec.openapi,
+      suggestion: 'Set "openapi" to "3.1.0" or remove the webhooks',
+    });
+  }
+
+  for (const { schema, context } of collectSchemas(spec)) {
+    if (is31) {
+      if ('nullable' in schema) {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: '"nullable" is not supported in OpenAPI 3.1',
+          context,
+          suggestion: 'Add "null" to the type array instead, e.g. type: ["string", "null"]',
+        });
+      }
+      if ('example' in schema) {
+        warnings.push({
+          source: 'openapi',
+          severity: 'warning',
+          message: '"example" is deprecated in OpenAPI 3.1 schemas',
+          context,
+          suggestion: 'Use an "examples" array instead',
+        });
+      }
+    } else {
+      if (Array.isArray(schema.type)) {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: 'Type arrays require OpenAPI 3.1',
+          context,
+          suggestion: 'Use a single type with "nullable: true" in OpenAPI 3.0',
+        });
+      }
+      if ('examples' in schema) {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: '"examples" in a schema requires OpenAPI 3.1',
+          context,
+          suggestion: 'Use a single "example" value in OpenAPI 3.0',
+        });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validates schema compositions: oneOf/anyOf/allOf need at least one schema and a
+ * discriminator needs a composition and a property name.
+ */
+function validateCompositions(spec: OpenApiDoc): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const { schema, context } of collectSchemas(spec)) {
+    COMPOSITION_KEYWORDS.forEach(keyword => {
+      const variants = schema[keyword];
+      if (variants !== undefined && (!Array.isArray(variants) || variants.length === 0)) {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: `"${keyword}" must be a non-empty array of schemas`,
+          context,
+        });
+      }
+    });
+
+    if (schema.discriminator === undefined) {
+      continue;
+    }
+    if (!COMPOSITION_KEYWORDS.some(keyword => schema[keyword])) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: '"discriminator" requires "oneOf", "anyOf" or "allOf"',
+        context,
+        suggestion: 'List the schemas the discriminator chooses between in "oneOf"',
+      });
+    }
+    if (typeof schema.discriminator?.propertyName !== 'string' || !schema.discriminator.propertyName) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: 'Discriminator is missing "propertyName"',
+        context,
+        suggestion: 'Name the property whose value selects the schema',
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Tells whether a value matches a schema's type; schemas without a type match anything
+ */
+function matchesSchemaType(value: unknown, schema: SchemaObject): boolean {
+  if (schema.type === undefined) {
+    return true;
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (value === null) {
+    return types.includes('null') || schema.nullable === true;
+  }
+  return types.some((type) => {
+    switch (type) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && !Array.isArray(value);
+      default:
+        return typeof value === type;
+    }
+  });
+}
+
+/**
+ * Validates the internal consistency of schema constraints: enum values, defaults and
+ * examples against each other and the type, lower bounds against upper bounds,
+ * patterns, multipleOf and readOnly/writeOnly.
+ */
+function validateSchemaConstraints(spec: OpenApiDoc): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const format = (value: unknown): string => JSON.stringify(value);
+
+  for (const { schema, context } of collectSchemas(spec)) {
+    const allowed = Array.isArray(schema.enum) ? schema.enum.map(format) : undefined;
+
+    if (schema.enum !== undefined && !allowed?.length) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: '"enum" must be a non-empty array',
+        context,
+      });
+    }
+    (Array.isArray(schema.enum) ? schema.enum : []).filter((value) => !matchesSchemaType(value, schema)).forEach((value) => {
+      warnings.push({
+        source: 'openapi',
+        severity: 'warning',
+        message: `Enum value ${format(value)} does not match the schema type`,
+        context,
+      });
+    });
+
+    if (schema.default !== undefined) {
+      if (allowed?.length && !allowed.includes(format(schema.default))) {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: `Default value ${format(schema.default)} is not one of the enum values`,
+          context,
+          suggestion: `Use one of: ${allowed.join(', ')}`,
+        });
+      } else if (!matchesSchemaType(schema.default, schema)) {
+        warnings.push({
+          source: 'openapi',
+          severity: 'warning',
+          message: `Default value ${format(schema.default)} does not match the schema type`,
+          context,
+        });
+      }
+    }
+
+    const examples = [
+      ...(schema.example !== undefined ? [schema.example] : []),
+      ...(Array.isArray(schema.examples) ? schema.examples : []),
+    ];
+    if (allowed?.length) {
+      examples.filter((example) => !allowed.includes(format(example))).forEach((example) => {
+        warnings.push({
+          source: 'openapi',
+          severity: 'warning',
+          message: `Example ${format(example)} is not one of the enum values`,
+          context,
+        });
+      });
+    }
+
+    ([['minimum', 'maximum'], ['minLength', 'maxLength'], ['minItems', 'maxItems']] as const).forEach(([lower, upper]) => {
+      const min = schema[lower];
+      const max = schema[upper];
+      if (typeof min === 'number' && typeof max === 'number' && min > max) {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: `"${lower}" (${min}) is greater than "${upper}" (${max})`,
+          context,
+        });
+      }
+    });
+
+    if (schema.multipleOf !== undefined && !(typeof schema.multipleOf === 'number' && schema.multipleOf > 0)) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: '"multipleOf" must be a number greater than 0',
+        context,
+      });
+    }
+
+    if (schema.pattern !== undefined) {
+      try {
+        new RegExp(schema.pattern);
+      } catch {
+        errors.push({
+          source: 'openapi',
+          severity: 'error',
+          message: `Invalid regular expression in "pattern": ${schema.pattern}`,
+          context,
+        });
+      }
+    }
+
+    if (schema.readOnly && schema.writeOnly) {
+      errors.push({
+        source: 'openapi',
+        severity: 'error',
+        message: 'A schema cannot be both "readOnly" and "writeOnly"',
+        context,
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validates all paths (or webhooks) and their operations.
+ */
+function validatePaths(spec: OpenApiDoc, pathItems: Record<string, PathItem> = spec.paths): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const [path, pathItem] of Object.entries(pathItems)) {
     if (!pathItem || typeof pathItem !== 'object') {
       continue;
     }
@@ -507,6 +858,16 @@ function validatePathParameters(spec: OpenApiDoc): ValidationError[] {
               suggestion: 'Path parameters must be marked as required: true',
             });
           }
+
+          if (paramIn === 'path' && typeof paramName === 'string' && !path.includes(`{${paramName}}`)) {
+            warnings.push({
+              source: 'openapi',
+              severity: 'warning',
+              message: `Path parameter "${paramName}" does not appear in the path template`,
+              context: `${path} (${method})`,
+              suggestion: `Add "{${paramName}}" to the path or declare the parameter in another location`,
+            });
+          }
         }
       }
     }
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+
+describe('Integration - Request and Response Bodies', () => {
+  it('should document both the POST payload and the returned entity', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+
+        User->>API: POST /users
+        Note over API: Request-Body: {"name": "John"}
+        API-->>User: 201 Created
+        Note over API: Body: {"id": 1, "name": "John"}
+        API-->>User: 422 Invalid
+        Note over API: Body: {"errors": ["name is required"]}
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const operation = specs['API'].paths['/users'].post!;
+
+    expect(operation.requestBody?.content?.['application/json'].schema?.properties).toHaveProperty('name');
+    expect(operation.requestBody?.content?.['application/json'].schema?.properties).not.toHaveProperty('id');
+    expect(operation.responses['201'].content?.['application/json'].schema?.properties).toHaveProperty('id');
+    expect(operation.responses['422'].content?.['application/json'].schema?.properties).toHaveProperty('errors');
+  });
+});
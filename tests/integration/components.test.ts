@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { tokenize } from '@/parser/mermaidLexer';
 import { parse } from '@/parser/mermaidParser';
 import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+import { validateOpenApiSpecs } from '@/validators/openapiValidator';
 
 describe('Integration - Components and References (Task 25)', () => {
   it('should parse and generate schema components from Mermaid diagram', () => {
@@ -61,4 +62,147 @@ describe('Integration - Components and References (Task 25)', () => {
     // They remain inline in the request/response bodies
     expect(specs['API'].components?.schemas).toBeUndefined();
   });
+
+  it('should emit named bodies under their name and refer to them without repeating the JSON', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+
+        User->>API: POST /users
+        Note over API: Body<NewUser>: {"name": "string, required", "email": "string, format:email"}
+        API-->>User: 201 Created
+        Note over API: Response-Body<User>: {"id": 1, "name": "John"}
+
+        User->>API: GET /users/{id}
+        Note over API: Response-Body<User>:
+        API-->>User: 200 OK
+
+        User->>API: GET /status
+        API-->>User: 200 OK {"uptime": 12}
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const spec = specs['API'];
+
+    expect(spec.components?.schemas).toEqual({
+      NewUser: {
+        type: 'object',
+        properties: { name: { type: 'string' }, email: { type: 'string', format: 'email' } },
+        required: ['name']
+      },
+      User: {
+        type: 'object',
+        properties: { id: { type: 'integer', example: 1 }, name: { type: 'string', example: 'John' } }
+      }
+    });
+    expect(spec.paths['/users'].post?.requestBody?.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/NewUser' });
+    expect(spec.paths['/users'].post?.responses['201'].content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+    expect(spec.paths['/users/{id}'].get?.responses['200'].content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+    expect(spec.paths['/status'].get?.responses['200'].content?.['application/json'].schema).toMatchObject({ type: 'object' });
+  });
+
+  it('should only emit named schemas into the specs that use them', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant Users
+        participant Orders
+
+        User->>Users: GET /users/{id}
+        Note over Users: Response-Body<User>: {"id": 1}
+        Users-->>User: 200 OK
+
+        User->>Orders: GET /orders
+        Orders-->>User: 200 OK [{"id": 1}]
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+
+    expect(Object.keys(specs['Users'].components?.schemas || {})).toEqual(['User']);
+    expect(specs['Orders'].components).toBeUndefined();
+  });
+
+  it('should emit diagram-level schema definitions into the specs that refer to them', () => {
+    const mermaid = `
+      sequenceDiagram
+        %% @schema User {"id": 1, "name": "string, required"}
+        %% @schema Error {
+        %%   "message": "string"
+        %% }
+        participant User
+        participant Users
+        participant Orders
+
+        User->>Users: GET /users/{id}
+        Users-->>User: 200 OK
+        Note over Users: Response-Body<User>:
+        Users-->>User: 404 Not Found
+        Note over Users: Response-Body<Error>:
+
+        User->>Orders: GET /orders/{id}
+        Orders-->>User: 404 Not Found
+        Note over Orders: Response-Body<Error>:
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const result = validateOpenApiSpecs(specs);
+
+    expect(result.valid).toBe(true);
+    expect(specs['Users'].components?.schemas).toEqual({
+      User: {
+        type: 'object',
+        properties: { id: { type: 'integer', example: 1 }, name: { type: 'string' } },
+        required: ['name']
+      },
+      Error: { type: 'object', properties: { message: { type: 'string' } } }
+    });
+    expect(Object.keys(specs['Orders'].components?.schemas || {})).toEqual(['Error']);
+  });
+
+  it('should report references to unknown schema names', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+
+        User->>API: GET /users
+        Note over API: Response-Body<Users>:
+        API-->>User: 200 OK
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const result = validateOpenApiSpecs(specs);
+
+    expect(specs['API'].paths['/users'].get?.responses['200'].content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/Users' });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => error.message)).toContain('Invalid reference: "#/components/schemas/Users" does not exist');
+  });
+
+  it('should share nested objects between named schemas and other bodies', () => {
+    const mermaid = `
+      sequenceDiagram
+        %% @schema User {"name": "John", "address": {"street": "Main St", "city": "Springfield"}}
+        participant User
+        participant API
+
+        User->>API: GET /users/{id}
+        Note over API: Response-Body<User>:
+        API-->>User: 200 OK
+
+        User->>API: POST /orders
+        Note over API: Body: {"items": [{"sku": "A1"}], "shipping": {"address": {"street": "Elm St", "city": "Shelbyville"}}}
+        API-->>User: 201 Created
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const schemas = specs['API'].components?.schemas;
+    const orderSchema = specs['API'].paths['/orders'].post?.requestBody?.content['application/json'].schema;
+
+    expect(Object.keys(schemas || {})).toEqual(['Address', 'User']);
+    expect(schemas?.User.properties?.address).toEqual({ $ref: '#/components/schemas/Address' });
+    expect(orderSchema?.properties?.shipping.properties?.address).toEqual({ $ref: '#/components/schemas/Address' });
+    expect(orderSchema?.properties?.items.items).toMatchObject({ type: 'object' });
+    expect(validateOpenApiSpecs(specs).valid).toBe(true);
+  });
 });
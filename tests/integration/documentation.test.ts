@@ -121,6 +121,7 @@ describe('Integration - Documentation Features (Task 26)', () => {
       url: 'https://docs.example.com/users',
       description: 'Detailed docs'
     });
+    expect(specs['API'].paths['/users'].get?.description).toBeUndefined();
   });
 
   it('should parse and generate multiple documentation features from single note', () => {
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+
+describe('Integration - Multi-line Bodies', () => {
+  it('should generate a request body from a body spanning several lines', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+
+        User->>API: POST /orders
+        Note over API: Body: {
+          "customerId": 42,
+          "items": [
+            { "sku": "A-1", "quantity": 2 }
+          ]
+        }
+        API-->>User: 201 Created
+    `;
+
+    const ast = parse(tokenize(mermaid));
+    const specs = generateOpenApiSpecs(ast);
+    const schema = specs['API'].paths['/orders'].post?.requestBody?.content?.['application/json'].schema;
+
+    expect(ast.notes).toHaveLength(0);
+    expect(schema?.properties?.customerId).toMatchObject({ type: 'integer' });
+    expect(schema?.properties?.items).toMatchObject({ type: 'array', items: { type: 'object' } });
+    expect(specs['API'].paths['/orders'].post?.responses['201']).toBeDefined();
+  });
+
+  it('should accept escaped newlines inside a body followed by other directives', () => {
+    const mermaid = `
+      sequenceDiagram
+        User->>API: POST /orders
+        Note over API: Body: {\\n  "customerId": 42\\n}\\nSummary: Create order
+        API-->>User: 201 Created
+    `;
+
+    const ast = parse(tokenize(mermaid));
+
+    expect(ast.interactions[0].body).toEqual({ customerId: 42 });
+    expect(ast.interactions[0].summary).toBe('Create order');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+import { validateOpenApiSpecs } from '@/validators/openapiValidator';
+
+describe('Integration - OpenAPI 3.1 Output', () => {
+  const mermaid = `
+    sequenceDiagram
+      actor Client
+      participant Shop
+
+      Client->>Shop: POST /orders
+      Note over Shop: Request-Body: {"items": [{"sku": "A1", "qty": 2}]}
+      Shop-->>Client: 201 Created {"id": "o-1"}
+      Shop->>Client: POST /order-shipped
+      Note over Client: Body: {"id": "o-1", "carrier": "UPS"}
+      Client-->>Shop: 204 No Content
+  `;
+
+  it('should generate specs that validate as OpenAPI 3.1', () => {
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)), { openapiVersion: '3.1.0' });
+    const result = validateOpenApiSpecs(specs);
+
+    expect(specs['Shop'].openapi).toBe('3.1.0');
+    expect(specs['Shop'].webhooks?.['/order-shipped'].post).toBeDefined();
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should generate specs that validate as OpenAPI 3.0', () => {
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const result = validateOpenApiSpecs(specs);
+
+    expect(specs['Shop'].openapi).toBe('3.0.0');
+    expect(result.errors).toEqual([]);
+  });
+});
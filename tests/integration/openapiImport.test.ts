@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+import { importOpenApi } from '@/generators/openapiImporter';
+import { toYaml } from '@/generators/yamlFormatter';
+
+const generate = (diagram: string) => generateOpenApiSpecs(parse(tokenize(diagram)));
+
+describe('OpenAPI Import - Integration Tests', () => {
+  it('should round-trip a generated spec through its YAML and the imported diagram', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant Client
+        participant API as User Service
+
+        Client->>API: GET /users
+        Note over API: Summary: List users
+        Note over API: Tags: users, admin
+        Note over API: Operation-Id: listUsers
+        Note over API: Security: oauth2 [read, write]
+        Note over API: Query: limit integer, required, min:1, max:100
+        API-->>Client: 200 OK [{"id": 1, "name": "John"}]
+
+        Client->>API: POST /users
+        Note over API: Description: Creates a user
+        Note over API: Security: bearerAuth
+        Note over API: Request-Type: application/xml
+        Note over API: Body: {"email": "string, required, format:email", "age": "integer"}
+        API-->>Client: 201 Created {"id": 1}
+        API-->>Client: 400 Bad Request
+
+        Client->>API: DELETE /users/{id}
+        Note over API: Deprecated: true
+        Note over API: Header: X-Request-Id string, required
+        API-->>Client: 204 No Content
+    `;
+
+    const original = generate(mermaid)['API'];
+    const imported = importOpenApi(toYaml(original));
+    const roundTripped = generate(imported.diagram)['UserService'];
+
+    expect(imported.warnings).toEqual([]);
+    expect(roundTripped.info).toEqual(original.info);
+    expect(roundTripped.paths).toEqual(original.paths);
+    expect(roundTripped.components).toEqual(original.components);
+  });
+
+  it('should keep the important parts of a hand-written spec', () => {
+    const { diagram } = importOpenApi({
+      openapi: '3.0.3',
+      info: { title: 'Pets API', version: '1.0.0' },
+      paths: {
+        '/pets/{petId}': {
+          put: {
+            summary: 'Update a pet',
+            operationId: 'updatePet',
+            tags: ['pets'],
+            security: [{ apiKey: [] }],
+            parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+                }
+              }
+            },
+            responses: { '200': { description: 'Updated' } }
+          }
+        }
+      },
+      components: { securitySchemes: { apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' } } }
+    });
+
+    const operation = generate(diagram)['Pets'].paths['/pets/{petId}'].put!;
+
+    expect(operation.summary).toBe('Update a pet');
+    expect(operation.operationId).toBe('updatePet');
+    expect(operation.tags).toEqual(['pets']);
+    expect(operation.security).toEqual([{ apiKey_header: [] }]);
+    expect(generate(diagram)['Pets'].components?.securitySchemes).toEqual({
+      apiKey_header: { type: 'apiKey', name: 'X-API-Key', in: 'header' }
+    });
+    expect(operation.parameters).toContainEqual(expect.objectContaining({ name: 'petId', in: 'path', schema: { type: 'integer' } }));
+    expect(operation.requestBody?.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name']
+    });
+    expect(operation.responses['200'].description).toBe('Updated');
+  });
+
+  it('should keep the names and details of security schemes', () => {
+    const securitySchemes = {
+      key: { type: 'apiKey' as const, name: 'X-Token', in: 'header' as const },
+      token: { type: 'http' as const, scheme: 'bearer', bearerFormat: 'opaque' },
+      oauth: {
+        type: 'oauth2' as const,
+        flows: { clientCredentials: { tokenUrl: 'https://auth.io/token', scopes: { read: 'Read access' } } }
+      }
+    };
+    const { diagram, warnings } = importOpenApi({
+      openapi: '3.0.3',
+      info: { title: 'Pets API', version: '1.0.0' },
+      paths: {
+        '/pets': { get: { security: [{ key: [], token: [] }, { oauth: ['read'] }], responses: { '200': { description: 'OK' } } } }
+      },
+      components: { securitySchemes }
+    });
+
+    const spec = generate(diagram)['Pets'];
+
+    expect(warnings).toEqual([]);
+    expect(spec.paths['/pets'].get?.security).toEqual([{ key: [], token: [] }, { oauth: ['read'] }]);
+    expect(spec.components?.securitySchemes).toEqual(securitySchemes);
+  });
+
+  it('should not turn untyped placeholders into examples', () => {
+    const schema = { type: 'object', properties: { tags: { type: 'array', items: { type: 'string' } }, count: { type: 'integer' } } };
+    const { diagram } = importOpenApi({
+      openapi: '3.0.3',
+      info: { title: 'Pets API', version: '1.0.0' },
+      paths: { '/pets': { post: { requestBody: { content: { 'application/json': { schema } } }, responses: { '201': { description: 'Created' } } } } }
+    });
+
+    expect(generate(diagram)['Pets'].paths['/pets'].post?.requestBody?.content['application/json'].schema).toEqual(schema);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+import { validateOpenApiSpecs } from '@/validators';
+
+describe('Integration - Declared Parameters', () => {
+  it('should parse and generate header, cookie and typed query parameters', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+
+        User->>API: GET /orders/{orderId}
+        Note over API: Header: X-Request-Id string, required\\nCookie: session\\nQuery: page integer, min:1\\nPath: orderId integer
+        API-->>User: 200 OK
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const parameters = specs['API'].paths['/orders/{orderId}'].get?.parameters;
+
+    expect(parameters).toContainEqual({ name: 'orderId', in: 'path', required: true, schema: { type: 'integer' } });
+    expect(parameters).toContainEqual({ name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' } });
+    expect(parameters).toContainEqual({ name: 'session', in: 'cookie', schema: { type: 'string' } });
+    expect(parameters).toContainEqual({ name: 'page', in: 'query', schema: { type: 'integer', minimum: 1 } });
+    expect(validateOpenApiSpecs(specs).valid).toBe(true);
+  });
+});
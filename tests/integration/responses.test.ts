@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+
+describe('Integration - Multiple Responses', () => {
+  it('should document every response arrow of a request', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+
+        User->>API: POST /orders
+        API-->>User: 201 Created
+        API-->>User: 404 Product not found
+        API-->>User: 422 Validation failed
+    `;
+
+    const ast = parse(tokenize(mermaid));
+    const specs = generateOpenApiSpecs(ast);
+    const responses = specs['API'].paths['/orders'].post!.responses;
+
+    expect(ast.notes).toHaveLength(0);
+    expect(Object.keys(responses)).toEqual(['201', '404', '422']);
+    expect(responses['404'].description).toBe('Product not found');
+    expect(responses['422'].description).toBe('Validation failed');
+  });
+
+  it('should infer response schemas from inline JSON on response arrows', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant Gateway
+        participant ProductService
+
+        Gateway->>ProductService: GET /internal/products?active=true
+        ProductService-->>Gateway: 200 { "items": [{ "id": 1, "name": "Widget" }] }
+        ProductService-->>Gateway: 503 Unavailable { "retryAfter": 30 }
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const responses = specs['ProductService'].paths['/internal/products'].get!.responses;
+
+    expect(responses['200'].description).toBe('Response description');
+    expect(responses['200'].content?.['application/json'].schema?.properties?.items).toMatchObject({
+      type: 'array',
+      items: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' } } }
+    });
+    expect(responses['503'].description).toBe('Unavailable');
+    expect(responses['503'].content?.['application/json'].schema?.properties?.retryAfter).toMatchObject({ type: 'integer' });
+  });
+
+  it('should document alt/else branches as alternative responses', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant User
+        participant API
+        participant DB
+
+        User->>API: GET /users/{id}
+        API->>DB: GET /rows/{id}
+        DB-->>API: 200 { "id": 1 }
+        alt user exists
+          API-->>User: 200 { "id": 1, "name": "John" }
+        else user not found
+          API-->>User: 404
+        end
+        loop retry
+          User->>API: GET /health
+          API-->>User: 200 OK
+        end
+    `;
+
+    const ast = parse(tokenize(mermaid));
+    const specs = generateOpenApiSpecs(ast);
+    const responses = specs['API'].paths['/users/{id}'].get!.responses;
+
+    expect(ast.notes).toHaveLength(0);
+    expect(responses['200'].description).toBe('user exists');
+    expect(responses['200'].content?.['application/json'].schema?.properties?.name).toBeDefined();
+    expect(responses['404'].description).toBe('user not found');
+    expect(specs['API'].paths['/health'].get!.responses['200'].description).toBe('OK');
+  });
+});
@@ -22,9 +22,9 @@ describe('Security Schemes - Integration Tests', () => {
     const yaml = toYaml(specs['API']);
 
     expect(yaml).toContain('bearerAuth:');
-    expect(yaml).toContain('type: "http"');
-    expect(yaml).toContain('scheme: "bearer"');
-    expect(yaml).toContain('bearerFormat: "JWT"');
+    expect(yaml).toContain('type: http');
+    expect(yaml).toContain('scheme: bearer');
+    expect(yaml).toContain('bearerFormat: JWT');
     expect(yaml).toContain('security:');
     expect(yaml).toContain('- bearerAuth:');
   });
@@ -46,9 +46,9 @@ describe('Security Schemes - Integration Tests', () => {
     const yaml = toYaml(specs['API']);
 
     expect(yaml).toContain('apiKey_header:');
-    expect(yaml).toContain('type: "apiKey"');
-    expect(yaml).toContain('name: "X-API-Key"');
-    expect(yaml).toContain('in: "header"');
+    expect(yaml).toContain('type: apiKey');
+    expect(yaml).toContain('name: X-API-Key');
+    expect(yaml).toContain('in: header');
     expect(yaml).toContain('security:');
     expect(yaml).toContain('- apiKey_header:');
   });
@@ -70,13 +70,13 @@ describe('Security Schemes - Integration Tests', () => {
     const yaml = toYaml(specs['API']);
 
     expect(yaml).toContain('oauth2:read,write:');
-    expect(yaml).toContain('type: "oauth2"');
+    expect(yaml).toContain('type: oauth2');
     expect(yaml).toContain('flows:');
     expect(yaml).toContain('implicit:');
-    expect(yaml).toContain('authorizationUrl: "https://example.com/oauth/authorize"');
+    expect(yaml).toContain('authorizationUrl: https://example.com/oauth/authorize');
     expect(yaml).toContain('scopes:');
-    expect(yaml).toContain('read: "read permission"');
-    expect(yaml).toContain('write: "write permission"');
+    expect(yaml).toContain('read: read permission');
+    expect(yaml).toContain('write: write permission');
   });
 
   it('should process multiple security schemes from Mermaid to OpenAPI YAML', () => {
@@ -181,8 +181,8 @@ describe('Security Schemes - Integration Tests', () => {
     const yaml = toYaml(specs['API']);
 
     expect(yaml).toContain('basicAuth:');
-    expect(yaml).toContain('type: "http"');
-    expect(yaml).toContain('scheme: "basic"');
+    expect(yaml).toContain('type: http');
+    expect(yaml).toContain('scheme: basic');
     expect(yaml).toContain('security:');
     expect(yaml).toContain('- basicAuth:');
   });
@@ -204,8 +204,8 @@ describe('Security Schemes - Integration Tests', () => {
     const yaml = toYaml(specs['API']);
 
     expect(yaml).toContain('openIdConnect:');
-    expect(yaml).toContain('type: "openIdConnect"');
-    expect(yaml).toContain('openIdConnectUrl: "https://example.com/.well-known/openid-configuration"');
+    expect(yaml).toContain('type: openIdConnect');
+    expect(yaml).toContain('openIdConnectUrl: https://example.com/.well-known/openid-configuration');
     expect(yaml).toContain('security:');
     expect(yaml).toContain('- openIdConnect:');
   });
@@ -259,4 +259,37 @@ describe('Security Schemes - Integration Tests', () => {
     const security = specs['API'].paths['/users'].get?.security;
     expect(security).toEqual([{ bearerAuth: [] }]);
   });
+
+  it('should use security schemes declared in the diagram', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant Client
+        participant Auth
+        participant API
+
+        Note over Auth: SecurityScheme oauth2 authorizationCode authUrl=https://auth.example.org/authorize tokenUrl=https://auth.example.org/token scopes=read:Read,write:Write
+        Note over Auth: SecurityScheme partnerKey apiKey name=X-Partner-Key
+        Client->>API: GET /users
+        Note over API: Security: oauth2 [read]
+        Note over API: Security: partnerKey
+        API-->>Client: 200 OK
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+
+    expect(specs['API'].components?.securitySchemes).toEqual({
+      oauth2: {
+        type: 'oauth2',
+        flows: {
+          authorizationCode: {
+            authorizationUrl: 'https://auth.example.org/authorize',
+            tokenUrl: 'https://auth.example.org/token',
+            scopes: { read: 'Read', write: 'Write' }
+          }
+        }
+      },
+      partnerKey: { type: 'apiKey', name: 'X-Partner-Key', in: 'header' }
+    });
+    expect(specs['API'].paths['/users'].get?.security).toEqual([{ oauth2: ['read'] }, { partnerKey: [] }]);
+  });
 });
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
+import { generateSwaggerSpecs } from '@/generators/swaggerExporter';
+
+describe('Integration - Swagger 2.0 Export', () => {
+  it('should export a diagram as Swagger 2.0 documents', () => {
+    const mermaid = `
+      sequenceDiagram
+        participant Client
+        participant API
+
+        Client->>API: POST /users
+        Note over API: Security: apiKey in header
+        Note over API: Body: {"name": "John"}
+        API-->>Client: 201 Created {"id": 1, "name": "John"}
+        Client->>API: GET /users/{id}
+        Note over API: Security: apiKey in header
+        API-->>Client: 200 OK {"id": 1, "name": "John"}
+    `;
+
+    const specs = generateOpenApiSpecs(parse(tokenize(mermaid)));
+    const { specs: swagger, warnings } = generateSwaggerSpecs(specs, { host: 'api.example.com' });
+    const api = swagger['API'];
+
+    expect(warnings).toEqual([]);
+    expect(api.swagger).toBe('2.0');
+    expect(api.host).toBe('api.example.com');
+    expect(api.securityDefinitions?.apiKey_header).toEqual({ type: 'apiKey', name: 'X-API-Key', in: 'header' });
+    expect(api.paths['/users'].post.parameters?.[0]).toMatchObject({ name: 'body', in: 'body', required: true });
+    expect(api.paths['/users/{id}'].get.parameters?.[0]).toEqual({ name: 'id', in: 'path', required: true, type: 'string' });
+    expect(api.paths['/users/{id}'].get.responses['200'].schema).toEqual({ $ref: '#/definitions/IdnameSchema' });
+    expect(api.definitions?.IdnameSchema).toBeDefined();
+    expect(JSON.stringify(api)).not.toContain('#/components/');
+  });
+});
@@ -115,7 +115,7 @@ describe('parser (property-based)', () => {
     });
 
     it('should always return valid token types', () => {
-      const validTokenTypes = ['participant', 'request', 'response', 'note'];
+      const validTokenTypes = ['participant', 'request', 'response', 'note', 'block'];
 
       fc.assert(
         fc.property(fc.string(), (input) => {
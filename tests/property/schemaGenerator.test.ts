@@ -9,6 +9,10 @@ describe('schemaGenerator (property-based)', () => {
       fc.assert(
         fc.property(fc.anything(), (value) => {
           const result = parseSchemaFromValue(value);
+          // A lone null does not tell the type
+          if (value === null) {
+            return result.schema.type === undefined && result.schema.nullable === undefined;
+          }
           return (
             result.schema !== undefined &&
             result.schema.type !== undefined &&
@@ -100,7 +104,7 @@ describe('schemaGenerator (property-based)', () => {
       fc.assert(
         fc.property(fc.constantFrom(null), (value) => {
           const result = parseSchemaFromValue(value);
-          return result.schema.type === 'string';
+          return result.schema.type === undefined && result.schema.nullable === undefined;
         }),
         { numRuns: 10 }
       );
@@ -234,16 +238,15 @@ describe('schemaGenerator (property-based)', () => {
                 result.schema.items?.type === 'string'
               );
             } else {
-              const firstItem = arr[0];
-              let expectedType: string;
-              if (typeof firstItem === 'string') expectedType = 'string';
-              else if (typeof firstItem === 'boolean') expectedType = 'boolean';
-              else if (Number.isInteger(firstItem)) expectedType = 'integer';
-              else expectedType = 'number';
+              // Every element's type is described, in order of first appearance
+              const expectedTypes = [...new Set(arr.map(item => parseSchemaFromValue(item).schema.type))];
+              const itemTypes = result.schema.items?.oneOf
+                ? result.schema.items.oneOf.map(variant => variant.type)
+                : [result.schema.items?.type];
 
               return (
                 result.schema.type === 'array' &&
-                result.schema.items?.type === expectedType
+                JSON.stringify(itemTypes) === JSON.stringify(expectedTypes)
               );
             }
           }
@@ -559,6 +562,10 @@ describe('schemaGenerator (property-based)', () => {
           const schema = generateSchema(obj);
 
           const checkType = (s: SchemaObject): boolean => {
+            // Mixed array elements are described by typed oneOf variants
+            if (s.oneOf) return s.oneOf.length > 1 && s.oneOf.every(checkType);
+            // Values that are only null have no type (and no nullable, which needs one)
+            if (!s.type && s.nullable === undefined && s.description) return true;
             if (!s.type || typeof s.type !== 'string') return false;
 
             if (s.properties) {
@@ -591,7 +598,10 @@ describe('schemaGenerator (property-based)', () => {
               const itemsSchema = result.schema.items;
               if (!itemsSchema) return false;
 
-              // Items should always have a type
+              // Items should always have a type, or typed variants for mixed elements
+              if (itemsSchema.oneOf) {
+                return itemsSchema.oneOf.every(variant => typeof variant.type === 'string');
+              }
               return typeof itemsSchema.type === 'string';
             }
 
@@ -629,7 +639,8 @@ describe('schemaGenerator (property-based)', () => {
           (value) => {
             const result = parseSchemaFromValue(value);
 
-            // Must have a type
+            // Must have a type, unless the value is null
+            if (value === null) return result.schema.type === undefined && result.schema.nullable === undefined;
             if (!result.schema.type) return false;
 
             // Type must be valid
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { load } from 'js-yaml';
+import { toYaml } from '@/generators/yamlFormatter';
+
+// Fragments that change the meaning of plain YAML scalars
+const YAML_FRAGMENTS = [
+  'yes', 'No', 'on', 'OFF', 'y', 'null', '~', 'true', '1.0', '0x1F', '1e3', '.inf', '-.NaN',
+  '2024-01-01', '12:30', '#tag', 'a: b', ': ', ' #', ':', '-', '- ', '?', '*ref', '&anchor',
+  '!tag', '|', '>', '%', '@', '`', "'", '"', '[', ']', '{', '}', ',', '<<', '=', ' ', '\t',
+  '\n', '\r\n', '\\', '\u0085', ' ', '﻿', '\u0000', 'é', '😀', 'text'
+];
+
+const yamlString = fc.oneof(
+  fc.string(),
+  fc.string({ unit: 'binary' }),
+  fc.array(fc.constantFrom(...YAML_FRAGMENTS), { maxLength: 6 }).map(parts => parts.join('')),
+  // Long enough to be folded over several lines
+  fc.array(fc.constantFrom(...YAML_FRAGMENTS), { minLength: 20, maxLength: 60 }).map(parts => parts.join(' '))
+);
+
+const yamlValue = fc.letrec(tie => ({
+  value: fc.oneof(
+    { depthSize: 'small' },
+    yamlString,
+    fc.double(),
+    fc.integer(),
+    fc.boolean(),
+    fc.constant(null),
+    tie('array'),
+    tie('object')
+  ),
+  array: fc.array(tie('value'), { maxLength: 4 }),
+  object: fc.dictionary(yamlString.filter(key => key !== '__proto__'), tie('value'), { maxKeys: 4 })
+})).value;
+
+describe('yamlFormatter (property-based)', () => {
+  describe('toYaml', () => {
+    it('should be read back as the same value by a YAML parser', () => {
+      fc.assert(
+        fc.property(yamlValue, (value) => {
+          expect(load(toYaml(value))).toEqual(value);
+        }),
+        { numRuns: 1000 }
+      );
+    });
+
+    it('should keep the key order of objects', () => {
+      fc.assert(
+        fc.property(fc.uniqueArray(yamlString.filter(key => key !== '__proto__'), { maxLength: 8 }), (keys) => {
+          const value = Object.fromEntries(keys.map((key, index) => [key, index]));
+          expect(Object.keys(load(toYaml(value)) as object)).toEqual(Object.keys(value));
+        }),
+        { numRuns: 1000 }
+      );
+    });
+  });
+});
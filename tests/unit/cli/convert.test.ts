@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { convertDiagram, convertMarkdown, formatDiagnostic } from '@/cli/convert';
+
+describe('convert', () => {
+  describe('convertDiagram', () => {
+    it('should generate and validate specs for a valid diagram', () => {
+      const result = convertDiagram(`sequenceDiagram
+participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 OK {"id": 1}
+`);
+
+      expect(result.errors).toEqual([]);
+      expect(Object.keys(result.specs)).toEqual(['API']);
+      expect(result.specs['API'].paths['/users'].get).toBeDefined();
+    });
+
+    it('should not generate specs when the diagram has syntax errors', () => {
+      const result = convertDiagram(`participant User
+participant API
+User->>API: FETCH /users
+`);
+
+      expect(result.specs).toEqual({});
+      expect(result.errors[0]).toMatchObject({ line: 3, message: 'Invalid HTTP method: "FETCH"' });
+    });
+
+    it('should pass generator options through', () => {
+      const result = convertDiagram(`participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 OK
+`, { openapiVersion: '3.1.0' });
+
+      expect(result.specs['API'].openapi).toBe('3.1.0');
+    });
+  });
+
+  describe('convertMarkdown', () => {
+    const markdown = `# Design
+
+\`\`\`mermaid
+sequenceDiagram
+participant Client
+participant API
+Client->>API: GET /users
+API-->>Client: 200 OK
+\`\`\`
+
+Some text.
+
+\`\`\`mermaid
+sequenceDiagram
+participant Client
+participant API
+Client->>API: POST /users
+API-->>Client: 201 Created
+\`\`\`
+`;
+
+    it('should merge the specs of every diagram fence per server', () => {
+      const result = convertMarkdown(markdown);
+
+      expect(result.errors).toEqual([]);
+      expect(Object.keys(result.specs)).toEqual(['API']);
+      expect(Object.keys(result.specs['API'].paths['/users'])).toEqual(['get', 'post']);
+    });
+
+    it('should report lines relative to the Markdown file', () => {
+      const result = convertMarkdown(markdown.replace('POST /users', 'FETCH /users'));
+
+      expect(result.errors[0]).toMatchObject({ line: 17, message: 'Invalid HTTP method: "FETCH"' });
+      expect(result.specs['API'].paths['/users'].get).toBeDefined();
+    });
+
+    it('should return no specs for documents without sequence diagrams', () => {
+      expect(convertMarkdown('# Nothing here\n')).toEqual({ specs: {}, errors: [], warnings: [] });
+    });
+  });
+
+  describe('formatDiagnostic', () => {
+    it('should format diagnostics with a file:line location and suggestion', () => {
+      expect(formatDiagnostic('a.mmd', {
+        source: 'mermaid',
+        severity: 'error',
+        line: 3,
+        message: 'Invalid HTTP method: "FETCH"',
+        context: 'FETCH',
+        suggestion: 'Use one of: get, post'
+      })).toBe('a.mmd:3: error: Invalid HTTP method: "FETCH" (FETCH)\n  suggestion: Use one of: get, post');
+    });
+
+    it('should omit the location for diagnostics without a file', () => {
+      expect(formatDiagnostic(undefined, {
+        source: 'openapi',
+        severity: 'error',
+        message: 'Conflicting request body for POST /users'
+      })).toBe('error: Conflicting request body for POST /users');
+    });
+
+    it('should omit the line when the diagnostic has none', () => {
+      expect(formatDiagnostic('a.mmd', {
+        source: 'openapi',
+        severity: 'warning',
+        message: 'Service "API" has no operations defined'
+      })).toBe('a.mmd: warning: Service "API" has no operations defined');
+    });
+  });
+});
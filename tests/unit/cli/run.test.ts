@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runCli, USAGE } from '@/cli/run';
+import type { CliIO } from '@/cli/run';
+
+describe('runCli', () => {
+  let files: Record<string, string>;
+  let written: Record<string, string>;
+  let output: string[];
+  let errors: string[];
+  let io: CliIO;
+
+  beforeEach(() => {
+    files = {
+      'diagrams/users.mmd': `sequenceDiagram
+participant Client
+participant Users
+Client->>Users: GET /users
+Users-->>Client: 200 OK {"id": 1}
+`,
+      'diagrams/broken.mmd': `sequenceDiagram
+participant Client
+participant Orders
+Client->>Orders: GET /orders
+Note over Orders: Body: {invalid}
+`
+    };
+    written = {};
+    output = [];
+    errors = [];
+    io = {
+      readFile: (path) => {
+        if (!(path in files)) {
+          throw new Error('ENOENT');
+        }
+        return files[path];
+      },
+      writeFile: (path, content) => {
+        written[path] = content;
+      },
+      log: (message) => output.push(message),
+      error: (message) => errors.push(message)
+    };
+  });
+
+  it('should write one YAML file per server', () => {
+    const exitCode = runCli(['convert', 'diagrams/users.mmd', '--out', 'specs'], io);
+
+    expect(exitCode).toBe(0);
+    expect(Object.keys(written)).toEqual(['specs/Users.yaml']);
+    expect(written['specs/Users.yaml']).toContain('openapi: "3.0.0"');
+    expect(output).toEqual(['Wrote specs/Users.yaml']);
+    expect(errors).toEqual([]);
+  });
+
+  it('should write JSON and honour the OpenAPI version', () => {
+    const exitCode = runCli(['convert', 'diagrams/users.mmd', '--out', 'specs', '--format', 'json', '--openapi', '3.1.0'], io);
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(written['specs/Users.json']).openapi).toBe('3.1.0');
+  });
+
+  it('should detect string formats only when asked to', () => {
+    files['diagrams/users.mmd'] = files['diagrams/users.mmd'].replace('{"id": 1}', '{"email": "a@b.com"}');
+
+    runCli(['convert', 'diagrams/users.mmd', '--format', 'json'], io);
+    expect(written['Users.json']).not.toContain('"format"');
+
+    runCli(['convert', 'diagrams/users.mmd', '--format', 'json', '--detect-formats'], io);
+    expect(written['Users.json']).toContain('"format": "email"');
+  });
+
+  it('should export Swagger 2.0 documents', () => {
+    runCli(['convert', 'diagrams/users.mmd', '--swagger'], io);
+
+    expect(written['Users.yaml']).toContain('swagger: "2.0"');
+  });
+
+  it('should print errors with file:line locations and exit non-zero', () => {
+    const exitCode = runCli(['convert', 'diagrams/broken.mmd', 'diagrams/users.mmd', '--out', 'specs'], io);
+
+    expect(exitCode).toBe(1);
+    expect(errors[0]).toMatch(/^diagrams\/broken\.mmd:5: error: Invalid JSON in body note/);
+    expect(Object.keys(written)).toEqual(['specs/Users.yaml']);
+  });
+
+  it('should scan Markdown files for diagram fences', () => {
+    files['docs/design.md'] = ['# Users', '', '```mermaid', files['diagrams/broken.mmd'], '```'].join('\n');
+    const exitCode = runCli(['convert', 'docs/design.md'], io);
+
+    expect(exitCode).toBe(1);
+    expect(errors[0]).toMatch(/^docs\/design\.md:8: error: Invalid JSON in body note/);
+  });
+
+  it('should report unreadable files', () => {
+    const exitCode = runCli(['convert', 'missing.mmd'], io);
+
+    expect(exitCode).toBe(1);
+    expect(errors).toEqual(['missing.mmd: error: cannot read file']);
+  });
+
+  it('should merge specs for the same server from several diagrams', () => {
+    files['diagrams/more-users.mmd'] = files['diagrams/users.mmd'].replace('GET /users', 'DELETE /users');
+    const exitCode = runCli(['convert', 'diagrams/users.mmd', 'diagrams/more-users.mmd'], io);
+
+    expect(exitCode).toBe(0);
+    expect(output).toEqual(['Wrote Users.yaml']);
+    expect(written['Users.yaml']).toContain('get:');
+    expect(written['Users.yaml']).toContain('delete:');
+  });
+
+  it('should report merge conflicts and exit non-zero', () => {
+    files['diagrams/more-users.mmd'] = files['diagrams/users.mmd'].replace('{"id": 1}', '{"name": "a"}');
+    const exitCode = runCli(['convert', 'diagrams/users.mmd', 'diagrams/more-users.mmd'], io);
+
+    expect(exitCode).toBe(1);
+    expect(errors[0]).toMatch(/^error: Conflicting response 200 body for GET \/users \(Users: diagrams\/users\.mmd and diagrams\/more-users\.mmd\)/);
+  });
+
+  it('should exit with 2 on usage errors', () => {
+    expect(runCli([], io)).toBe(2);
+    expect(runCli(['build', 'a.mmd'], io)).toBe(2);
+    expect(runCli(['convert', 'a.mmd', '--format', 'xml'], io)).toBe(2);
+    expect(runCli(['convert', 'a.mmd', '--openapi', '2.0'], io)).toBe(2);
+    expect(runCli(['convert', 'a.mmd', '--unknown'], io)).toBe(2);
+    expect(errors[0]).toBe(USAGE);
+    expect(written).toEqual({});
+  });
+
+  it('should print usage with --help', () => {
+    expect(runCli(['--help'], io)).toBe(0);
+    expect(output).toEqual([USAGE]);
+  });
+});
@@ -57,6 +57,15 @@ describe('CollapsibleSpec', () => {
       expect(screen.getByText('JSON')).toBeInTheDocument();
     });
 
+    it('should label Swagger 2.0 output and render it as YAML', () => {
+      render(
+        <CollapsibleSpec title="TestService" content={mockOpenApiDoc} format="swagger" />
+      );
+
+      expect(screen.getByText('Swagger 2.0')).toBeInTheDocument();
+      expect((screen.getByRole('textbox') as HTMLTextAreaElement).value).toContain('openapi: "3.0.0"');
+    });
+
     it('should render in expanded state by default', () => {
       render(
         <CollapsibleSpec title="TestService" content={mockOpenApiDoc} format="yaml" />
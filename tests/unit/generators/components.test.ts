@@ -227,4 +227,165 @@ describe('openapiGenerator - Components and References (Task 25)', () => {
     // Should not have components if empty
     expect(specs['API'].components).toBeUndefined();
   });
+
+  it('should refer repeated bodies with the shape of a named schema to it', () => {
+    const ast: MermaidAST = {
+      participants: ['User', 'API'],
+      schemas: { IdSchema: { id: 1 } },
+      interactions: [
+        {
+          type: 'request',
+          from: 'User',
+          to: 'API',
+          method: 'GET',
+          path: '/users/{id}',
+          line: 1,
+          responseBodySchema: 'IdSchema',
+          response: { status: '200', description: 'OK' }
+        },
+        {
+          type: 'request',
+          from: 'User',
+          to: 'API',
+          method: 'GET',
+          path: '/orders/{id}',
+          line: 2,
+          responses: [{ status: '200', description: 'OK', body: { id: 2 } }]
+        },
+        {
+          type: 'request',
+          from: 'User',
+          to: 'API',
+          method: 'GET',
+          path: '/items/{id}',
+          line: 3,
+          responses: [{ status: '200', description: 'OK', body: { id: 3 } }]
+        }
+      ],
+      notes: []
+    };
+
+    const specs = generateOpenApiSpecs(ast);
+    const responseSchema = (path: string) => specs['API'].paths[path].get?.responses['200'].content?.['application/json'].schema;
+
+    expect(Object.keys(specs['API'].components?.schemas || {})).toEqual(['IdSchema']);
+    expect(responseSchema('/users/{id}')).toEqual({ $ref: '#/components/schemas/IdSchema' });
+    expect(responseSchema('/orders/{id}')).toEqual({ $ref: '#/components/schemas/IdSchema' });
+    expect(responseSchema('/items/{id}')).toEqual({ $ref: '#/components/schemas/IdSchema' });
+  });
+
+  describe('Nested Components', () => {
+    const request = (line: number, path: string, body: unknown): MermaidAST['interactions'][number] => ({
+      type: 'request',
+      from: 'User',
+      to: 'API',
+      method: 'POST',
+      path,
+      line,
+      body,
+      responses: [{ status: '201', description: 'Created' }]
+    });
+    const requestSchema = (specs: ReturnType<typeof generateOpenApiSpecs>, path: string) =>
+      specs['API'].paths[path].post?.requestBody?.content['application/json'].schema;
+
+    it('should extract nested objects shared by different bodies, named after their property', () => {
+      const address = { street: 'Main St', city: 'Springfield' };
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [
+          request(1, '/users', { name: 'John', address }),
+          request(2, '/companies', { title: 'ACME', address })
+        ],
+        notes: []
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(specs['API'].components?.schemas).toEqual({
+        Address: {
+          type: 'object',
+          properties: { street: { type: 'string', example: 'Main St' }, city: { type: 'string', example: 'Springfield' } }
+        }
+      });
+      expect(requestSchema(specs, '/users')).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string', example: 'John' }, address: { $ref: '#/components/schemas/Address' } }
+      });
+      expect(requestSchema(specs, '/companies')?.properties?.address).toEqual({ $ref: '#/components/schemas/Address' });
+    });
+
+    it('should extract array item schemas named in the singular', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [
+          request(1, '/orders', { line_items: [{ sku: 'A1', quantity: 1 }] }),
+          request(2, '/carts', { lineItems: [{ sku: 'B2', quantity: 3 }], total: 9.5 }),
+          request(3, '/categories', { categories: [{ id: 1, label: 'a' }], tags: [{ id: 1, label: 'a' }] })
+        ],
+        notes: []
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(Object.keys(specs['API'].components?.schemas || {})).toEqual(['LineItem', 'Category']);
+      expect(requestSchema(specs, '/orders')?.properties?.line_items.items).toEqual({ $ref: '#/components/schemas/LineItem' });
+      expect(requestSchema(specs, '/carts')?.properties?.lineItems.items).toEqual({ $ref: '#/components/schemas/LineItem' });
+      expect(requestSchema(specs, '/categories')?.properties?.tags.items).toEqual({ $ref: '#/components/schemas/Category' });
+    });
+
+    it('should extract repeated bodies after their nested components and refer to them', () => {
+      const user = { name: 'John', address: { street: 'Main St' } };
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [request(1, '/users', user), request(2, '/admins', user)],
+        notes: []
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(specs['API'].components?.schemas).toEqual({
+        Address: { type: 'object', properties: { street: { type: 'string', example: 'Main St' } } },
+        NameaddressSchema: {
+          type: 'object',
+          properties: { name: { type: 'string', example: 'John' }, address: { $ref: '#/components/schemas/Address' } }
+        }
+      });
+      expect(requestSchema(specs, '/admins')).toEqual({ $ref: '#/components/schemas/NameaddressSchema' });
+    });
+
+    it('should give different shapes under the same property name distinct names', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [
+          request(1, '/users', { address: { street: 'Main St' }, billing: { address: { zip: 12345 } } }),
+          request(2, '/companies', { address: { street: 'Elm St' }, billing: { address: { zip: 54321 } } })
+        ],
+        notes: []
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(specs['API'].components?.schemas?.Address).toMatchObject({ properties: { street: { type: 'string' } } });
+      expect(specs['API'].components?.schemas?.Address1).toMatchObject({ properties: { zip: { type: 'integer' } } });
+      expect(specs['API'].components?.schemas?.Billing).toEqual({
+        type: 'object',
+        properties: { address: { $ref: '#/components/schemas/Address1' } }
+      });
+    });
+
+    it('should keep nested objects used once inline', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [
+          request(1, '/users', { address: { street: 'Main St' } }),
+          request(2, '/companies', { address: { zip: 12345 } })
+        ],
+        notes: []
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(specs['API'].components).toBeUndefined();
+    });
+  });
 });
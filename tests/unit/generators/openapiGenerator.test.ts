@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { generateOpenApiSpecs } from '@/generators/openapiGenerator';
-import type { MermaidAST } from '@/types';
+import type { Interaction, MermaidAST } from '@/types';
 
 describe('openapiGenerator', () => {
   describe('generateOpenApiSpecs', () => {
@@ -1743,10 +1743,421 @@ describe('openapiGenerator', () => {
         };
 
         const specs = generateOpenApiSpecs(ast);
-        // Note: Duplicate operations overwrite each other
-        // Only the last response is kept
+        // Duplicate operations are merged, keeping the responses of both
         expect(specs['API'].paths['/users'].get?.responses['404']).toBeDefined();
-        expect(specs['API'].paths['/users'].get?.responses['200']).toBeUndefined();
+        expect(specs['API'].paths['/users'].get?.responses['200']).toBeDefined();
+      });
+    });
+
+    describe('Multiple Responses', () => {
+      it('should emit every collected response as a separate status code', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            {
+              type: 'request',
+              from: 'User',
+              to: 'API',
+              method: 'GET',
+              path: '/users/{id}',
+              line: 1,
+              body: { id: 1, name: 'John' },
+              response: { status: '200', description: 'OK' },
+              responses: [
+                { status: '200', description: 'OK' },
+                { status: '404', description: 'Not Found' },
+                { status: '422' }
+              ]
+            }
+          ],
+          notes: []
+        };
+
+        const specs = generateOpenApiSpecs(ast);
+        const responses = specs['API'].paths['/users/{id}'].get!.responses;
+
+        expect(Object.keys(responses)).toEqual(['200', '404', '422']);
+        expect(responses['404'].description).toBe('Not Found');
+        expect(responses['422'].description).toBe('Response description');
+        // The body note describes the primary response only
+        expect(responses['200'].content?.['application/json'].schema?.properties?.name).toBeDefined();
+        expect(responses['404'].content?.['application/json'].schema).toEqual({ type: 'object', example: {} });
+      });
+    });
+
+    describe('Inline Response Payloads', () => {
+      it('should generate response schemas from inline payloads', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            {
+              type: 'request',
+              from: 'User',
+              to: 'API',
+              method: 'POST',
+              path: '/users',
+              line: 1,
+              body: { name: 'John' },
+              response: { status: '201', body: { id: 1, name: 'John' } },
+              responses: [
+                { status: '201', body: { id: 1, name: 'John' } },
+                { status: '409', description: 'Conflict', body: ['duplicate'] }
+              ]
+            }
+          ],
+          notes: []
+        };
+
+        const specs = generateOpenApiSpecs(ast);
+        const operation = specs['API'].paths['/users'].post!;
+
+        expect(operation.responses['201'].content?.['application/json'].schema).toEqual({
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            name: { type: 'string', example: 'John' }
+          }
+        });
+        expect(operation.responses['409'].content?.['application/json'].schema).toMatchObject({
+          type: 'array',
+          items: { type: 'string' }
+        });
+        expect(operation.requestBody?.content?.['application/json'].schema?.properties?.name).toBeDefined();
+      });
+
+      it('should prefer the inline payload over a body note for GET responses', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            {
+              type: 'request',
+              from: 'User',
+              to: 'API',
+              method: 'GET',
+              path: '/users',
+              line: 1,
+              body: { fromNote: true },
+              response: { status: '200', body: { fromArrow: true } },
+              responses: [{ status: '200', body: { fromArrow: true } }]
+            }
+          ],
+          notes: []
+        };
+
+        const specs = generateOpenApiSpecs(ast);
+        const schema = specs['API'].paths['/users'].get!.responses['200'].content?.['application/json'].schema;
+
+        expect(schema?.properties).toHaveProperty('fromArrow');
+        expect(schema?.properties).not.toHaveProperty('fromNote');
+      });
+    });
+
+    describe('Participant Labels and Actors', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'OS'],
+        participantTable: [
+          { id: 'User', label: 'User', kind: 'actor' },
+          { id: 'OS', label: 'Order Service', kind: 'participant' }
+        ],
+        interactions: [
+          { type: 'request', from: 'User', to: 'OS', method: 'GET', path: '/orders', line: 1 },
+          { type: 'request', from: 'OS', to: 'User', method: 'POST', path: '/callbacks', line: 2 }
+        ],
+        notes: []
+      };
+
+      it('should use participant label for the spec title', () => {
+        const specs = generateOpenApiSpecs(ast);
+        expect(specs['OS'].info.title).toBe('Order Service API');
+      });
+
+      it('should exclude actors from spec generation by default', () => {
+        const specs = generateOpenApiSpecs(ast);
+        expect(Object.keys(specs)).toEqual(['OS']);
+      });
+
+      it('should include actors when requested', () => {
+        const specs = generateOpenApiSpecs(ast, { includeActors: true });
+        expect(Object.keys(specs)).toEqual(['OS', 'User']);
+        expect(specs['User'].paths['/callbacks'].post).toBeDefined();
+      });
+    });
+
+    describe('Declared Parameters', () => {
+      it('should emit declared parameters with location, required flag and schema', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            {
+              type: 'request',
+              from: 'User',
+              to: 'API',
+              method: 'GET',
+              path: '/users/{id}?limit=10&offset=0',
+              line: 1,
+              parameters: [
+                { name: 'X-Request-Id', in: 'header', definition: 'string, required, format:uuid' },
+                { name: 'session', in: 'cookie' },
+                { name: 'limit', in: 'query', definition: 'integer, required, min:1, max:100' },
+                { name: 'id', in: 'path', definition: 'integer' }
+              ]
+            }
+          ],
+          notes: []
+        };
+
+        const specs = generateOpenApiSpecs(ast);
+        const parameters = specs['API'].paths['/users/{id}'].get?.parameters;
+
+        expect(parameters).toEqual([
+          { name: 'limit', in: 'query', required: true, schema: { type: 'integer', minimum: 1, maximum: 100 } },
+          { name: 'offset', in: 'query', schema: { type: 'string', example: '0' } },
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+          { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string', format: 'uuid' } },
+          { name: 'session', in: 'cookie', schema: { type: 'string' } }
+        ]);
+      });
+    });
+
+    describe('Request and Response Bodies', () => {
+      it('should fill request body and response content independently', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            {
+              type: 'request',
+              from: 'User',
+              to: 'API',
+              method: 'POST',
+              path: '/users',
+              line: 1,
+              requestBody: { name: 'John' },
+              responseBody: { id: 1, name: 'John' },
+              response: { status: '201' },
+              responses: [{ status: '201' }, { status: '409', body: { error: 'exists' } }]
+            }
+          ],
+          notes: []
+        };
+
+        const specs = generateOpenApiSpecs(ast);
+        const operation = specs['API'].paths['/users'].post!;
+
+        expect(Object.keys(operation.requestBody?.content?.['application/json'].schema?.properties || {})).toEqual(['name']);
+        expect(Object.keys(operation.responses['201'].content?.['application/json'].schema?.properties || {})).toEqual(['id', 'name']);
+        expect(Object.keys(operation.responses['409'].content?.['application/json'].schema?.properties || {})).toEqual(['error']);
+      });
+
+      it('should allow a request body on methods other than POST, PUT and PATCH', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            {
+              type: 'request',
+              from: 'User',
+              to: 'API',
+              method: 'DELETE',
+              path: '/users',
+              line: 1,
+              requestBody: { ids: [1, 2] },
+              response: { status: '204' }
+            }
+          ],
+          notes: []
+        };
+
+        const specs = generateOpenApiSpecs(ast);
+        expect(specs['API'].paths['/users'].delete?.requestBody?.content?.['application/json'].schema?.properties?.ids).toBeDefined();
+      });
+    });
+
+    describe('OpenAPI 3.1 Output', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        participantTable: [
+          { id: 'User', label: 'User', kind: 'actor' },
+          { id: 'API', label: 'API', kind: 'participant' }
+        ],
+        interactions: [
+          {
+            type: 'request',
+            from: 'User',
+            to: 'API',
+            method: 'GET',
+            path: '/users/{id}',
+            line: 1,
+            response: { status: '200', body: { id: 1, tags: ['admin'] } }
+          },
+          {
+            type: 'request',
+            from: 'API',
+            to: 'User',
+            method: 'POST',
+            path: '/order-events',
+            line: 2,
+            requestBody: { orderId: 'abc' },
+            response: { status: '200' }
+          }
+        ],
+        notes: []
+      };
+
+      it('should keep generating OpenAPI 3.0.0 by default', () => {
+        const specs = generateOpenApiSpecs(ast);
+
+        expect(specs['API'].openapi).toBe('3.0.0');
+        expect(specs['API'].webhooks).toBeUndefined();
+        expect(specs['API'].paths['/users/{id}'].get?.responses['200'].content?.['application/json'].schema?.properties?.id.example).toBe(1);
+      });
+
+      it('should emit examples arrays instead of example in 3.1 schemas', () => {
+        const specs = generateOpenApiSpecs(ast, { openapiVersion: '3.1.0' });
+        const schema = specs['API'].paths['/users/{id}'].get?.responses['200'].content?.['application/json'].schema;
+
+        expect(specs['API'].openapi).toBe('3.1.0');
+        expect(schema?.properties?.id).toEqual({ type: 'integer', examples: [1] });
+        expect(schema?.properties?.tags).toEqual({ type: 'array', items: { type: 'string', examples: ['admin'] }, examples: [['admin']] });
+      });
+
+      it('should emit requests sent to actors as webhooks of the sending server', () => {
+        const specs = generateOpenApiSpecs(ast, { openapiVersion: '3.1.0' });
+        const webhook = specs['API'].webhooks?.['/order-events'].post;
+
+        expect(specs['User']).toBeUndefined();
+        expect(specs['API'].paths['/order-events']).toBeUndefined();
+        expect(webhook?.requestBody?.content?.['application/json'].schema?.properties?.orderId).toEqual({ type: 'string', examples: ['abc'] });
+      });
+
+      it('should turn nullable schemas into type arrays or null variants in 3.1', () => {
+        const nullableAst: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [{
+            type: 'request',
+            from: 'User',
+            to: 'API',
+            method: 'GET',
+            path: '/users',
+            line: 1,
+            response: { status: '200', body: { name: 'string|null', ids: 'integer|string|null', deletedAt: null } }
+          }],
+          notes: []
+        };
+
+        const v30 = generateOpenApiSpecs(nullableAst).API.paths['/users'].get?.responses['200'].content?.['application/json'].schema;
+        const v31 = generateOpenApiSpecs(nullableAst, { openapiVersion: '3.1.0' }).API.paths['/users'].get?.responses['200'].content?.['application/json'].schema;
+
+        expect(v30?.properties).toEqual({
+          name: { type: 'string', nullable: true },
+          ids: { oneOf: [{ type: 'integer' }, { type: 'string' }], nullable: true },
+          deletedAt: { description: 'Type unknown, the example value is null' }
+        });
+        expect(v31?.properties).toEqual({
+          name: { type: ['string', 'null'] },
+          ids: { oneOf: [{ type: 'integer' }, { type: 'string' }, { type: 'null' }] },
+          deletedAt: { description: 'Type unknown, the example value is null' }
+        });
+      });
+    });
+
+    describe('Format Detection', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [{
+          type: 'request',
+          from: 'User',
+          to: 'API',
+          method: 'GET',
+          path: '/events?since=2024-01-01',
+          line: 1,
+          response: { status: '200', body: { id: '123e4567-e89b-12d3-a456-426614174000', at: '2024-01-01T10:00:00Z' } }
+        }],
+        notes: []
+      };
+
+      it('should leave formats out by default', () => {
+        const operation = generateOpenApiSpecs(ast).API.paths['/events'].get;
+
+        expect(operation?.parameters?.[0].schema).toEqual({ type: 'string', example: '2024-01-01' });
+        expect(operation?.responses['200'].content?.['application/json'].schema?.properties?.at).toEqual({ type: 'string', example: '2024-01-01T10:00:00Z' });
+      });
+
+      it('should guess formats of body and query examples when enabled', () => {
+        const operation = generateOpenApiSpecs(ast, { detectFormats: true }).API.paths['/events'].get;
+        const properties = operation?.responses['200'].content?.['application/json'].schema?.properties;
+
+        expect(operation?.parameters?.[0].schema).toEqual({ type: 'string', format: 'date', example: '2024-01-01' });
+        expect(properties?.id.format).toBe('uuid');
+        expect(properties?.at.format).toBe('date-time');
+      });
+    });
+
+    describe('Duplicate Operations', () => {
+      const request = (line: number, extra: Partial<Interaction>): Interaction => ({
+        type: 'request',
+        from: 'User',
+        to: 'API',
+        method: 'GET',
+        path: '/users/{id}',
+        line,
+        response: { status: '200' },
+        ...extra
+      });
+
+      it('should merge compatible duplicates and list their payloads as examples', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            request(1, { summary: 'Get user', responseBody: { id: 1, name: 'Ada' } }),
+            request(2, { responseBody: { id: 2, name: 'Grace' }, tags: ['users'] }),
+            request(3, { response: { status: '404' } })
+          ],
+          notes: []
+        };
+
+        const operation = generateOpenApiSpecs(ast)['API'].paths['/users/{id}'].get;
+        const content = operation?.responses['200'].content?.['application/json'];
+
+        expect(operation?.summary).toBe('Get user');
+        expect(operation?.tags).toEqual(['users']);
+        expect(operation?.responses['404']).toBeDefined();
+        expect(content?.examples).toEqual({
+          example1: { value: { id: 1, name: 'Ada' } },
+          example2: { value: { id: 2, name: 'Grace' } }
+        });
+      });
+
+      it('should keep the first definition of conflicting parts', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            request(1, { summary: 'Get user', responseBody: { id: 1 } }),
+            request(2, { summary: 'Fetch user', responseBody: { name: 'Ada' } })
+          ],
+          notes: []
+        };
+
+        const operation = generateOpenApiSpecs(ast)['API'].paths['/users/{id}'].get;
+        const content = operation?.responses['200'].content?.['application/json'];
+
+        expect(operation?.summary).toBe('Get user');
+        expect(content?.schema?.properties).toHaveProperty('id');
+        expect(content?.schema?.properties).not.toHaveProperty('name');
+        expect(content?.examples).toBeUndefined();
+      });
+
+      it('should not add examples when duplicates send the same payload', () => {
+        const ast: MermaidAST = {
+          participants: ['User', 'API'],
+          interactions: [
+            request(1, { method: 'POST', path: '/users', requestBody: { name: 'Ada' } }),
+            request(2, { method: 'POST', path: '/users', requestBody: { name: 'Ada' } })
+          ],
+          notes: []
+        };
+
+        const operation = generateOpenApiSpecs(ast)['API'].paths['/users'].post;
+
+        expect(operation?.requestBody?.content['application/json'].examples).toBeUndefined();
       });
     });
 
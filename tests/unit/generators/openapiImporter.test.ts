@@ -0,0 +1,370 @@
+import { describe, it, expect } from 'vitest';
+import { importOpenApi, parseOpenApiDocument } from '@/generators/openapiImporter';
+import type { OpenApiDoc } from '@/types';
+
+const baseSpec = (paths: OpenApiDoc['paths'], extra: Partial<OpenApiDoc> = {}): OpenApiDoc => ({
+  openapi: '3.0.3',
+  info: { title: 'User Service API', version: '1.0.0' },
+  paths,
+  ...extra
+});
+
+describe('openapiImporter', () => {
+  describe('parseOpenApiDocument', () => {
+    it('should read JSON documents', () => {
+      const spec = parseOpenApiDocument('{"openapi": "3.0.3", "info": {"title": "A", "version": "1"}, "paths": {}}');
+      expect(spec.info.title).toBe('A');
+    });
+
+    it('should read YAML documents', () => {
+      const spec = parseOpenApiDocument('openapi: 3.1.0\ninfo:\n  title: A\n  version: "1"\npaths: {}\n');
+      expect(spec.openapi).toBe('3.1.0');
+      expect(spec.info.version).toBe('1');
+      expect(parseOpenApiDocument('openapi: 3.0.3\ninfo:\n  title: A\n  version: 2024-01-01\n').info.version).toBe('2024-01-01');
+    });
+
+    it('should reject Swagger 2.0 documents', () => {
+      expect(() => parseOpenApiDocument('swagger: "2.0"\ninfo: {}')).toThrow('Swagger 2.0 documents are not supported');
+    });
+
+    it('should reject documents without an openapi version', () => {
+      expect(() => parseOpenApiDocument('- a\n- b')).toThrow('Expected an OpenAPI document');
+      expect(() => parseOpenApiDocument('info: {}')).toThrow('Expected an OpenAPI 3 document');
+    });
+
+    it('should report YAML syntax errors', () => {
+      expect(() => parseOpenApiDocument('openapi: "3.0.3')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('importOpenApi', () => {
+    it('should declare a client actor and a participant named after the spec', () => {
+      const { diagram } = importOpenApi(baseSpec({}));
+
+      expect(diagram).toBe('sequenceDiagram\n    actor Client\n    participant UserService as User Service\n');
+    });
+
+    it('should write each operation as a request with its responses', () => {
+      const { diagram, warnings } = importOpenApi(baseSpec({
+        '/users/{id}': {
+          get: {
+            summary: 'Get user',
+            operationId: 'getUser',
+            tags: ['users'],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' } } }
+                  }
+                }
+              },
+              '404': { description: 'Not Found' }
+            }
+          }
+        }
+      }));
+
+      expect(warnings).toEqual([]);
+      expect(diagram).toContain([
+        '    Client->>UserService: GET /users/{id}',
+        '    Note over UserService: Summary: Get user',
+        '    Note over UserService: Operation-Id: getUser',
+        '    Note over UserService: Tags: users',
+        '    UserService-->>Client: 200 OK {"id":"integer","name":"string"}',
+        '    UserService-->>Client: 404 Not Found'
+      ].join('\n'));
+    });
+
+    it('should write parameters with the definition mini-language', () => {
+      const { diagram } = importOpenApi(baseSpec({
+        '/users/{id}': {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          get: {
+            parameters: [
+              { name: 'limit', in: 'query', required: true, schema: { type: 'integer', minimum: 1, maximum: 100 } },
+              { name: 'X-Request-Id', in: 'header', schema: { type: 'string', format: 'uuid' } },
+              { name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'banned'], default: 'active' } },
+              { name: 'tz', in: 'query', required: true, schema: { type: 'string', pattern: '^[+-]\\d{2}:\\d{2}$', example: 'UTC, +00:00' } },
+              { $ref: '#/components/parameters/Session' } as never
+            ],
+            responses: { '200': { description: 'OK' } }
+          }
+        }
+      }, {
+        components: { parameters: { Session: { name: 'session', in: 'cookie', schema: { type: 'string' } } } }
+      } as Partial<OpenApiDoc>));
+
+      expect(diagram).toContain('Note over UserService: Path: id integer');
+      expect(diagram).toContain('Note over UserService: Query: limit integer, required, min:1, max:100');
+      expect(diagram).toContain('Note over UserService: Header: X-Request-Id string, format:uuid');
+      expect(diagram).toContain('Note over UserService: Query: status string, enum:active|banned, default:active');
+      expect(diagram).toContain('Note over UserService: Query: tz string, required, pattern:^[+-]\\d{2}:\\d{2}$, example:"UTC, +00:00"');
+      expect(diagram).toContain('Note over UserService: Cookie: session string');
+    });
+
+    it('should write request bodies and non-JSON media types', () => {
+      const { diagram } = importOpenApi(baseSpec({
+        '/users': {
+          post: {
+            requestBody: {
+              content: {
+                'application/xml': {
+                  schema: {
+                    type: 'object',
+                    required: ['email'],
+                    properties: { email: { type: 'string', format: 'email' }, age: { type: 'integer' } }
+                  }
+                }
+              }
+            },
+            responses: { '201': { description: 'Created' } }
+          }
+        }
+      }));
+
+      expect(diagram).toContain('Note over UserService: Request-Type: application/xml');
+      expect(diagram).toContain('Note over UserService: Body: {"email":"string, required, format:email","age":"integer"}');
+    });
+
+    it('should follow schema references and stop at circular ones', () => {
+      const { diagram } = importOpenApi(baseSpec({
+        '/nodes': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } }
+              }
+            }
+          }
+        }
+      }, {
+        components: {
+          schemas: {
+            Node: { type: 'object', properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Node' } } }
+          }
+        }
+      }));
+
+      expect(diagram).toContain('    %% @schema Node {"name":"string","parent":{}}\n');
+      expect(diagram).toContain('    UserService-->>Client: 200 OK\n    Note over UserService: Response-Body<Node>:\n');
+    });
+
+    it('should define component schemas at the top and name bodies after them', () => {
+      const userResponse = {
+        description: 'OK',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+      };
+      const { diagram } = importOpenApi(baseSpec({
+        '/users': {
+          post: {
+            requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+            responses: { '201': userResponse }
+          }
+        },
+        '/users/{id}': { get: { responses: { '200': userResponse } } }
+      }, {
+        components: { schemas: { User: { type: 'object', properties: { name: { type: 'string' } } } } }
+      }));
+
+      expect(diagram).toContain('    participant UserService as User Service\n    %% @schema User {"name":"string"}\n\n');
+      expect(diagram.match(/@schema/g)).toHaveLength(1);
+      expect(diagram).toContain('Note over UserService: Body<User>:\n');
+      expect(diagram).toContain('    UserService-->>Client: 201 OK\n    Note over UserService: Response-Body<User>:\n');
+      expect(diagram).toContain('    UserService-->>Client: 200 OK\n    Note over UserService: Response-Body<User>:\n');
+    });
+
+    it('should write nullable types and scalar alternatives as type lists', () => {
+      const { diagram } = importOpenApi(baseSpec({
+        '/users': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      required: ['id'],
+                      properties: {
+                        id: { oneOf: [{ type: 'integer' }, { type: 'string' }] },
+                        name: { type: ['string', 'null'] },
+                        deletedAt: { nullable: true },
+                        tags: { type: 'array', items: { oneOf: [{ type: 'string', example: 'a' }, { type: 'integer', example: 1 }], nullable: true } }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }));
+
+      expect(diagram).toContain('200 OK {"id":"integer|string, required","name":"string|null","deletedAt":null,"tags":["a",1,null]}');
+    });
+
+    it('should write scalar response bodies as notes', () => {
+      const { diagram } = importOpenApi(baseSpec({
+        '/health': {
+          get: {
+            responses: {
+              '200': { description: 'OK', content: { 'text/plain': { schema: { type: 'string' } } } }
+            }
+          }
+        }
+      }));
+
+      expect(diagram).toContain('Note over UserService: Response-Type: text/plain');
+      expect(diagram).toContain('    UserService-->>Client: 200 OK\n    Note over UserService: Response-Body: "string"');
+    });
+
+    it('should declare the security schemes operations use and refer to them by name', () => {
+      const { diagram, warnings } = importOpenApi(baseSpec({
+        '/users': {
+          get: {
+            security: [{ token: [] }, { key: [] }, { oauth: ['read', 'write'] }],
+            responses: { '200': { description: 'OK' } }
+          }
+        }
+      }, {
+        components: {
+          securitySchemes: {
+            token: { type: 'http', scheme: 'bearer', bearerFormat: 'opaque' },
+            key: { type: 'apiKey', name: 'api_key', in: 'query', description: 'Partner key' },
+            oauth: {
+              type: 'oauth2',
+              flows: { authorizationCode: { authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: { read: 'Read', write: 'Write access' } } }
+            },
+            unused: { type: 'http', scheme: 'basic' }
+          }
+        }
+      }));
+
+      expect(warnings).toEqual([]);
+      expect(diagram).toContain([
+        '    Note over UserService: SecurityScheme token http bearer bearerFormat=opaque',
+        '    Note over UserService: SecurityScheme key apiKey name=api_key in=query description="Partner key"',
+        '    Note over UserService: SecurityScheme oauth oauth2 authorizationCode authUrl=https://a tokenUrl=https://t scopes=read:Read,write:"Write access"'
+      ].join('\n'));
+      expect(diagram).not.toContain('unused');
+      expect(diagram).toContain('Note over UserService: Security: token');
+      expect(diagram).toContain('Note over UserService: Security: key');
+      expect(diagram).toContain('Note over UserService: Security: oauth [read, write]');
+    });
+
+    it('should keep the built-in names of schemes the generator creates from them', () => {
+      const { diagram } = importOpenApi(baseSpec({
+        '/users': { get: { security: [{ bearerAuth: [] }, { apiKey_query: [] }], responses: { '200': { description: 'OK' } } } }
+      }, {
+        components: {
+          securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+            apiKey_query: { type: 'apiKey', name: 'X-API-Key', in: 'query' }
+          }
+        }
+      }));
+
+      expect(diagram).not.toContain('SecurityScheme');
+      expect(diagram).toContain('Note over UserService: Security: bearerAuth\n    Note over UserService: Security: apiKey in query\n');
+    });
+
+    it('should warn about security schemes a declaration cannot describe exactly', () => {
+      const { warnings } = importOpenApi(baseSpec({
+        '/users': { get: { security: [{ apiKey: [] }, { oauth: [] }], responses: { '200': { description: 'OK' } } } }
+      }, {
+        components: {
+          securitySchemes: {
+            apiKey: { type: 'apiKey', name: 'X-Token', in: 'header' },
+            oauth: { type: 'oauth2', flows: { clientCredentials: { tokenUrl: 'https://t', scopes: {} }, password: { tokenUrl: 'https://t', scopes: {} } } }
+          }
+        }
+      }));
+
+      expect(warnings.map(warning => warning.message)).toEqual([
+        'Security scheme "apiKey" is imported as "apiKey_header"',
+        'Only the "clientCredentials" flow of OAuth2 scheme "oauth" is kept'
+      ]);
+    });
+
+    it('should write combined, optional and document-level security', () => {
+      const { diagram, warnings } = importOpenApi(baseSpec({
+        '/users': {
+          get: {
+            security: [{ token: [], key: [] }, {}],
+            responses: { '200': { description: 'OK' } }
+          }
+        },
+        '/orders': { get: { responses: { '200': { description: 'OK' } } } }
+      }, {
+        security: [{ token: [] }],
+        components: {
+          securitySchemes: {
+            token: { type: 'http', scheme: 'bearer' },
+            key: { type: 'apiKey', name: 'api_key', in: 'header' }
+          }
+        }
+      }));
+
+      expect(warnings).toEqual([]);
+      expect(diagram).toContain('GET /users\n    Note over UserService: Security: token + key\n    Note over UserService: Security: none\n');
+      expect(diagram).toContain('GET /orders\n    Note over UserService: Security: token\n');
+    });
+
+    it('should warn about parts the diagram cannot express', () => {
+      const { diagram, warnings } = importOpenApi(baseSpec({
+        '/users': {
+          trace: { responses: { '200': { description: 'OK' } } },
+          get: {
+            security: [{ token: [], key: [] }],
+            responses: { default: { description: 'Error' }, '200': { description: 'OK' } }
+          }
+        }
+      }, {
+        components: {
+          securitySchemes: {
+            token: { type: 'http', scheme: 'bearer' },
+            key: { type: 'apiKey', name: 'session', in: 'cookie' }
+          }
+        }
+      }));
+
+      expect(diagram).not.toContain('TRACE');
+      expect(diagram).not.toContain('default');
+      expect(warnings.map(warning => warning.message)).toEqual([
+        'TRACE /users was dropped',
+        'API key "key" in cookie is not supported and was dropped',
+        'Response "default" was dropped'
+      ]);
+      expect(warnings.every(warning => warning.severity === 'warning')).toBe(true);
+    });
+
+    it('should write webhooks as requests from the server', () => {
+      const { diagram } = importOpenApi(baseSpec({}, {
+        webhooks: { '/user-created': { post: { responses: { '200': { description: 'OK' } } } } }
+      }));
+
+      expect(diagram).toContain('    UserService->>Client: POST /user-created\n    Client-->>UserService: 200 OK');
+    });
+
+    it('should accept YAML text', () => {
+      const { diagram } = importOpenApi(`openapi: 3.0.3
+info:
+  title: Orders
+  version: 1.0.0
+paths:
+  /orders:
+    delete:
+      deprecated: true
+      responses:
+        "204":
+          description: Deleted
+`);
+
+      expect(diagram).toContain('    participant Orders\n');
+      expect(diagram).toContain('    Client->>Orders: DELETE /orders\n    Note over Orders: Deprecated: true\n    Orders-->>Client: 204 Deleted');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { findOperationConflicts } from '@/generators/operationConflicts';
+import type { Interaction } from '@/types';
+
+const request = (line: number, overrides: Partial<Interaction>): Interaction => ({
+  type: 'request',
+  from: 'Client',
+  to: 'API',
+  method: 'GET',
+  path: '/users/{id}',
+  line,
+  ...overrides
+});
+
+describe('operationConflicts', () => {
+  describe('findOperationConflicts', () => {
+    it('should ignore differing example values of the same shape', () => {
+      expect(findOperationConflicts(
+        request(1, { summary: 'Get user', response: { status: '200', body: { id: 1, name: 'Ada' } } }),
+        request(4, { response: { status: '200', body: { id: 2, name: 'Grace' } } })
+      )).toEqual([]);
+    });
+
+    it('should list summaries, body shapes and security that disagree', () => {
+      expect(findOperationConflicts(
+        request(1, { method: 'POST', summary: 'Create', body: { name: 'Ada' }, security: ['bearerAuth'], response: { status: '201', body: { id: 1 } } }),
+        request(5, { method: 'POST', summary: 'Add', body: { name: 'Ada', age: 36 }, security: ['basicAuth'], response: { status: '201', body: { id: '1' } } })
+      )).toEqual(['summary ("Create" vs "Add")', 'request body', 'response 201 body', 'security']);
+    });
+
+    it('should compare named bodies by name and skip bodies of other media types', () => {
+      expect(findOperationConflicts(
+        request(1, { response: { status: '200', bodySchema: 'User' } }),
+        request(3, { response: { status: '200', bodySchema: 'Account' } })
+      )).toEqual(['response 200 body']);
+      expect(findOperationConflicts(
+        request(1, { response: { status: '200', body: { id: 1 } } }),
+        request(3, { responseMediaType: 'application/xml', response: { status: '200', body: { user: 'Ada' } } })
+      )).toEqual([]);
+    });
+  });
+});
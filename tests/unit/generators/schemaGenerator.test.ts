@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateSchema, parseSchemaFromValue } from '@/generators/schemaGenerator';
+import { detectStringFormat, generateSchema, parseSchemaFromValue } from '@/generators/schemaGenerator';
 
 describe('schemaGenerator', () => {
   describe('parseSchemaFromValue', () => {
@@ -38,8 +38,14 @@ describe('schemaGenerator', () => {
 
     it('should handle null values', () => {
       const result = parseSchemaFromValue(null);
-      expect(result.schema).toMatchObject({
-        type: 'string'
+      expect(result.schema).toEqual({ description: 'Type unknown, the example value is null' });
+    });
+
+    it('should not use arrays of definition strings as examples', () => {
+      expect(parseSchemaFromValue(['string']).schema).toEqual({ type: 'array', items: { type: 'string' } });
+      expect(parseSchemaFromValue([{ id: 'integer, min:1' }]).schema).toEqual({
+        type: 'array',
+        items: { type: 'object', properties: { id: { type: 'integer', minimum: 1 } } }
       });
     });
 
@@ -75,6 +81,78 @@ describe('schemaGenerator', () => {
       });
     });
 
+    it('should merge the properties of every object element', () => {
+      const result = parseSchemaFromValue([{ id: 1, name: 'John' }, { id: 2, note: 'x' }]);
+      expect(result.schema.items).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'integer', example: 1 },
+          name: { type: 'string', example: 'John' },
+          note: { type: 'string', example: 'x' }
+        }
+      });
+    });
+
+    it('should keep properties required only when every element requires them', () => {
+      const result = parseSchemaFromValue([
+        { id: 'integer, required', name: 'string, required' },
+        { id: 'integer, required' }
+      ]);
+      expect(result.schema.items?.required).toEqual(['id']);
+    });
+
+    it('should widen integers mixed with other numbers', () => {
+      const result = parseSchemaFromValue([1, 2.5]);
+      expect(result.schema.items).toEqual({ type: 'number', example: 2.5 });
+    });
+
+    it('should make items nullable when some elements are null', () => {
+      const result = parseSchemaFromValue([{ id: 1, note: null }, null, { id: 2, note: 'x' }]);
+      expect(result.schema.items).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'integer', example: 1 },
+          note: { type: 'string', example: 'x', nullable: true }
+        },
+        nullable: true
+      });
+    });
+
+    it('should parse nullable types and type alternatives', () => {
+      expect(parseSchemaFromValue('string|null, required, max:10')).toEqual({
+        schema: { type: 'string', nullable: true, maxLength: 10 },
+        isRequired: true
+      });
+      expect(parseSchemaFromValue('integer|string|null, min:1').schema).toEqual({
+        oneOf: [{ type: 'integer', minimum: 1 }, { type: 'string', minLength: 1 }],
+        nullable: true
+      });
+    });
+
+    it('should not treat pipes in regular strings as type alternatives', () => {
+      expect(parseSchemaFromValue('a|b').schema).toEqual({ type: 'string', example: 'a|b' });
+      expect(parseSchemaFromValue('null').schema).toEqual({ type: 'string', example: 'null' });
+    });
+
+    it('should describe elements of different types with oneOf', () => {
+      const result = parseSchemaFromValue([1, 'a', { id: 1 }, 2]);
+      expect(result.schema.items).toEqual({
+        oneOf: [
+          { type: 'object', properties: { id: { type: 'integer', example: 1 } } },
+          { type: 'integer', example: 1 },
+          { type: 'string', example: 'a' }
+        ]
+      });
+    });
+
+    it('should infer nested array items from every inner element', () => {
+      const result = parseSchemaFromValue([[1], [2.5]]);
+      expect(result.schema.items).toMatchObject({
+        type: 'array',
+        items: { type: 'number', example: 2.5 }
+      });
+    });
+
     it('should parse explicit type validation strings', () => {
       const result = parseSchemaFromValue('string,required,min:2,max:50');
       expect(result.schema).toMatchObject({
@@ -123,6 +201,63 @@ describe('schemaGenerator', () => {
       expect(result.isRequired).toBe(true);
     });
 
+    it('should parse enum and default values as the definition type', () => {
+      expect(parseSchemaFromValue('string, enum:active|inactive|banned, default:active').schema).toEqual({
+        type: 'string',
+        enum: ['active', 'inactive', 'banned'],
+        default: 'active'
+      });
+      expect(parseSchemaFromValue('integer|null, enum:1|2|null, default:2').schema).toEqual({
+        type: 'integer',
+        nullable: true,
+        enum: [1, 2, null],
+        default: 2
+      });
+      expect(parseSchemaFromValue('boolean, default:false').schema.default).toBe(false);
+    });
+
+    it('should parse patterns including colons', () => {
+      const result = parseSchemaFromValue('string, required, pattern:^\\d{2}:\\d{2}$');
+      expect(result.schema).toEqual({ type: 'string', pattern: '^\\d{2}:\\d{2}$' });
+      expect(result.isRequired).toBe(true);
+    });
+
+    it('should parse multipleOf, array and access keywords', () => {
+      expect(parseSchemaFromValue('number, multipleOf:0.5, readOnly').schema).toEqual({
+        type: 'number',
+        multipleOf: 0.5,
+        readOnly: true
+      });
+      expect(parseSchemaFromValue('array, minItems:1, maxItems:5, uniqueItems, writeOnly').schema).toEqual({
+        type: 'array',
+        minItems: 1,
+        maxItems: 5,
+        uniqueItems: true,
+        writeOnly: true
+      });
+    });
+
+    it('should read quoted and full option values', () => {
+      expect(parseSchemaFromValue("string, example:'Hello, world'").schema).toEqual({ type: 'string', example: 'Hello, world' });
+      expect(parseSchemaFromValue('string, example:http://x.io').schema).toEqual({ type: 'string', example: 'http://x.io' });
+      expect(parseSchemaFromValue('string, enum:"a, b"|c').schema.enum).toEqual(['a, b', 'c']);
+    });
+
+    it('should keep colons in plain strings as examples', () => {
+      expect(parseSchemaFromValue('2024-01-01T10:00:00Z').schema).toEqual({ type: 'string', example: '2024-01-01T10:00:00Z' });
+      expect(parseSchemaFromValue('Note: hello').schema).toEqual({ type: 'string', example: 'Note: hello' });
+    });
+
+    it('should detect string formats only when asked to', () => {
+      expect(parseSchemaFromValue('a@b.com').schema.format).toBeUndefined();
+      expect(parseSchemaFromValue('a@b.com', { detectFormats: true }).schema).toEqual({
+        type: 'string',
+        format: 'email',
+        example: 'a@b.com'
+      });
+      expect(parseSchemaFromValue('string, example:a@b.com', { detectFormats: true }).schema.format).toBeUndefined();
+    });
+
     it('should not treat regular strings as validation strings', () => {
       const result = parseSchemaFromValue('just a regular string');
       expect(result.schema).toMatchObject({
@@ -140,6 +275,25 @@ describe('schemaGenerator', () => {
     });
   });
 
+  describe('detectStringFormat', () => {
+    it.each([
+      ['2024-01-01T10:00:00Z', 'date-time'],
+      ['2024-01-01T10:00:00.5+02:00', 'date-time'],
+      ['2024-01-01', 'date'],
+      ['a@b.com', 'email'],
+      ['123e4567-e89b-12d3-a456-426614174000', 'uuid'],
+      ['https://example.com/users?id=1', 'uri'],
+      ['192.168.0.1', 'ipv4'],
+      ['2001:db8::1', 'ipv6']
+    ])('should detect %s as %s', (value, format) => {
+      expect(detectStringFormat(value)).toBe(format);
+    });
+
+    it.each(['John', '2024-13-01', '10:00:00', '999.1.1.1', 'a@b', 'example.com'])('should leave %s without a format', (value) => {
+      expect(detectStringFormat(value)).toBeUndefined();
+    });
+  });
+
   describe('generateSchema', () => {
     it('should generate schema from simple object', () => {
       const schema = generateSchema({
@@ -316,6 +470,16 @@ describe('schemaGenerator', () => {
       });
     });
 
+    it('should keep a detected format only when every value has it', () => {
+      const schema = generateSchema({
+        created: ['2024-01-01', '2024-02-01'],
+        contacts: ['a@b.com', 'n/a']
+      }, { detectFormats: true });
+
+      expect(schema.properties?.created.items?.format).toBe('date');
+      expect(schema.properties?.contacts.items?.format).toBeUndefined();
+    });
+
     it('should handle empty object', () => {
       const schema = generateSchema({});
 
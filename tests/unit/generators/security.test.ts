@@ -334,13 +334,12 @@ describe('Security Schemes - Generator', () => {
       const schemes = specs['API'].components?.securitySchemes;
       expect(Object.keys(schemes || {}).filter(k => k === 'bearerAuth')).toHaveLength(1);
 
-      // Both operations should reference the same scheme
-      expect(specs['API'].paths['/users'].get?.security).toEqual([
-        { bearerAuth: [] }
-      ]);
-      expect(specs['API'].paths['/users'].post?.security).toEqual([
+      // Both operations share the scheme, so it becomes the document default
+      expect(specs['API'].security).toEqual([
         { bearerAuth: [] }
       ]);
+      expect(specs['API'].paths['/users'].get?.security).toBeUndefined();
+      expect(specs['API'].paths['/users'].post?.security).toBeUndefined();
     });
 
     it('should handle mixed security schemes across different operations', () => {
@@ -610,5 +609,113 @@ describe('Security Schemes - Generator', () => {
       expect(specs['API'].paths['/users'].get?.parameters).toHaveLength(1);
       expect(specs['API'].components?.securitySchemes?.['basicAuth']).toBeDefined();
     });
+
+    it('should use security schemes declared in the diagram', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [
+          {
+            type: 'request',
+            from: 'User',
+            to: 'API',
+            method: 'GET',
+            path: '/users',
+            line: 1,
+            security: ['oauth2:read', 'apiKey_header', 'bearerAuth'],
+            response: { status: '200' }
+          }
+        ],
+        notes: [],
+        securitySchemes: {
+          oauth2: { type: 'oauth2', flows: { authorizationCode: { authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: { read: 'Read' } } } },
+          apiKey_header: { type: 'apiKey', name: 'X-Partner-Key', in: 'header' },
+          unused: { type: 'http', scheme: 'basic' }
+        }
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(specs['API'].components?.securitySchemes).toEqual({
+        oauth2: ast.securitySchemes!.oauth2,
+        apiKey_header: { type: 'apiKey', name: 'X-Partner-Key', in: 'header' },
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      });
+      expect(specs['API'].paths['/users'].get?.security).toEqual([
+        { oauth2: ['read'] },
+        { apiKey_header: [] },
+        { bearerAuth: [] }
+      ]);
+    });
+
+    it('should combine schemes joined with "+" and write "none" as the empty requirement', () => {
+      const ast: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [
+          {
+            type: 'request',
+            from: 'User',
+            to: 'API',
+            method: 'GET',
+            path: '/users',
+            line: 1,
+            security: ['bearerAuth+apiKey_header', 'oauth2:read+unknown', 'none'],
+            response: { status: '200' }
+          }
+        ],
+        notes: []
+      };
+
+      const specs = generateOpenApiSpecs(ast);
+
+      expect(specs['API'].paths['/users'].get?.security).toEqual([
+        { bearerAuth: [], apiKey_header: [] },
+        { 'oauth2:read': ['read'] },
+        {}
+      ]);
+      expect(Object.keys(specs['API'].components?.securitySchemes || {})).toEqual(['bearerAuth', 'apiKey_header', 'oauth2:read']);
+    });
+
+    it('should hoist security shared by every operation to the document', () => {
+      const request = (path: string, security: string[]) => ({
+        type: 'request' as const,
+        from: 'User',
+        to: 'API',
+        method: 'GET',
+        path,
+        line: 1,
+        security,
+        response: { status: '200' }
+      });
+      const shared: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [request('/users', ['bearerAuth', 'none']), request('/orders', ['bearerAuth', 'none'])],
+        notes: []
+      };
+      const mixed: MermaidAST = {
+        ...shared,
+        interactions: [request('/users', ['bearerAuth']), request('/orders', ['basicAuth'])]
+      };
+
+      const sharedSpec = generateOpenApiSpecs(shared)['API'];
+      expect(sharedSpec.security).toEqual([{ bearerAuth: [] }, {}]);
+      expect(sharedSpec.paths['/users'].get?.security).toBeUndefined();
+      expect(sharedSpec.paths['/orders'].get?.security).toBeUndefined();
+
+      const mixedSpec = generateOpenApiSpecs(mixed)['API'];
+      expect(mixedSpec.security).toBeUndefined();
+      expect(mixedSpec.paths['/users'].get?.security).toEqual([{ bearerAuth: [] }]);
+    });
+
+    it('should keep the security of a single operation on the operation', () => {
+      const single: MermaidAST = {
+        participants: ['User', 'API'],
+        interactions: [{ type: 'request', from: 'User', to: 'API', method: 'GET', path: '/users', line: 1, security: ['bearerAuth'], response: { status: '200' } }],
+        notes: []
+      };
+
+      const spec = generateOpenApiSpecs(single)['API'];
+      expect(spec.security).toBeUndefined();
+      expect(spec.paths['/users'].get?.security).toEqual([{ bearerAuth: [] }]);
+    });
   });
 });
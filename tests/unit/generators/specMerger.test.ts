@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import { mergeDiagrams, mergeMultiSpecDocs } from '@/generators/specMerger';
+import { tokenize } from '@/parser/mermaidLexer';
+import { parse } from '@/parser/mermaidParser';
+import type { OpenApiDoc, Operation } from '@/types';
+
+describe('specMerger', () => {
+  const spec = (paths: OpenApiDoc['paths'], extra: Partial<OpenApiDoc> = {}): OpenApiDoc => ({
+    openapi: '3.0.0',
+    info: { title: 'API API', version: '1.0.0' },
+    paths,
+    ...extra
+  });
+  const ok = { responses: { '200': { description: 'OK' } } };
+  const withBody = (status: string, properties: string[]): Operation => ({
+    responses: {
+      [status]: {
+        description: 'OK',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: Object.fromEntries(properties.map(name => [name, { type: 'string' }])) }
+          }
+        }
+      }
+    }
+  });
+
+  describe('mergeMultiSpecDocs', () => {
+    it('should combine the operations of specs for the same server', () => {
+      const { specs, errors } = mergeMultiSpecDocs([
+        { API: spec({ '/users': { get: ok } }) },
+        { API: spec({ '/users': { post: ok }, '/orders': { get: ok } }), Billing: spec({ '/invoices': { get: ok } }) }
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(Object.keys(specs)).toEqual(['API', 'Billing']);
+      expect(Object.keys(specs['API'].paths)).toEqual(['/users', '/orders']);
+      expect(Object.keys(specs['API'].paths['/users'])).toEqual(['get', 'post']);
+    });
+
+    it('should merge components, webhooks and tags', () => {
+      const { specs } = mergeMultiSpecDocs([
+        { API: spec({}, { tags: [{ name: 'users' }], components: { schemas: { User: { type: 'object' } } } }) },
+        {
+          API: spec({}, {
+            tags: [{ name: 'users' }, { name: 'orders' }],
+            webhooks: { '/events': { post: ok } },
+            components: { securitySchemes: { basicAuth: { type: 'http', scheme: 'basic' } } }
+          })
+        }
+      ]);
+
+      expect(specs['API'].tags).toEqual([{ name: 'users' }, { name: 'orders' }]);
+      expect(specs['API'].webhooks).toEqual({ '/events': { post: ok } });
+      expect(specs['API'].components).toEqual({
+        schemas: { User: { type: 'object' } },
+        securitySchemes: { basicAuth: { type: 'http', scheme: 'basic' } }
+      });
+    });
+
+    it('should combine compatible duplicate operations', () => {
+      const { specs, errors } = mergeMultiSpecDocs([
+        { API: spec({ '/users': { get: { summary: 'List users', ...withBody('200', ['id']) } } }) },
+        {
+          API: spec({
+            '/users': {
+              get: {
+                summary: 'Operation for /users',
+                parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+                responses: { ...withBody('200', ['id']).responses, '404': { description: 'Not Found' } }
+              }
+            }
+          })
+        }
+      ]);
+
+      const operation = specs['API'].paths['/users'].get;
+      expect(errors).toEqual([]);
+      expect(operation.summary).toBe('List users');
+      expect(operation.parameters).toEqual([{ name: 'limit', in: 'query', schema: { type: 'integer' } }]);
+      expect(Object.keys(operation.responses)).toEqual(['200', '404']);
+    });
+
+    it('should report conflicting operations and keep the first definition', () => {
+      const { specs, errors } = mergeMultiSpecDocs([
+        { API: spec({ '/users': { get: { summary: 'List users', ...withBody('200', ['id']) } } }) },
+        { API: spec({ '/users': { get: { summary: 'Find users', ...withBody('200', ['name']) } } }) }
+      ], ['a.mmd', 'b.mmd']);
+
+      expect(specs['API'].paths['/users'].get.summary).toBe('List users');
+      expect(specs['API'].paths['/users'].get.responses['200'].content?.['application/json'].schema?.properties).toHaveProperty('id');
+      expect(errors).toEqual([
+        {
+          source: 'openapi',
+          severity: 'error',
+          message: 'Conflicting summary ("List users" vs "Find users") for GET /users',
+          context: 'API: a.mmd and b.mmd',
+          suggestion: 'Make the diagrams describe the operation the same way, or keep it in a single diagram'
+        },
+        expect.objectContaining({ message: 'Conflicting response 200 body for GET /users' })
+      ]);
+    });
+
+    it('should name the input that first defined the operation', () => {
+      const { errors } = mergeMultiSpecDocs([
+        { Other: spec({}) },
+        { API: spec({ '/users': { post: withBody('201', ['id']) } }) },
+        { API: spec({ '/users': { post: withBody('201', ['name']) } }) }
+      ]);
+
+      expect(errors[0].context).toBe('API: document 2 and document 3');
+    });
+
+    it('should report conflicting security schemes', () => {
+      const { errors } = mergeMultiSpecDocs([
+        { API: spec({}, { components: { securitySchemes: { auth: { type: 'http', scheme: 'basic' } } } }) },
+        { API: spec({}, { components: { securitySchemes: { auth: { type: 'http', scheme: 'bearer' } } } }) }
+      ]);
+
+      expect(errors.map((e) => e.message)).toEqual(['Conflicting security scheme "auth"']);
+    });
+
+    it('should keep document-level security on the operations it applies to, in either order', () => {
+      const bearer = [{ bearerAuth: [] }];
+      const secured = spec({ '/users': { get: ok, post: ok } }, { security: bearer });
+      const open = spec({ '/health': { get: ok } });
+
+      [[secured, open], [open, secured]].forEach(([first, second]) => {
+        const { specs, errors } = mergeMultiSpecDocs([{ API: first }, { API: second }]);
+
+        expect(errors).toEqual([]);
+        expect(specs['API'].security).toBeUndefined();
+        expect(specs['API'].paths['/users'].get.security).toEqual(bearer);
+        expect(specs['API'].paths['/users'].post.security).toEqual(bearer);
+        expect(specs['API'].paths['/health'].get.security).toBeUndefined();
+      });
+    });
+
+    it('should keep security at the document level when every merged operation shares it', () => {
+      const bearer = [{ bearerAuth: [] }];
+      const { specs, errors } = mergeMultiSpecDocs([
+        { API: spec({ '/users': { get: ok, post: ok } }, { security: bearer }) },
+        { API: spec({ '/orders': { get: { ...ok, security: bearer } } }) }
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(specs['API'].security).toEqual(bearer);
+      expect(specs['API'].paths['/users'].get.security).toBeUndefined();
+      expect(specs['API'].paths['/orders'].get.security).toBeUndefined();
+    });
+
+    it('should report operations whose document-level security differs', () => {
+      const { errors } = mergeMultiSpecDocs([
+        { API: spec({ '/users': { get: ok, post: ok } }, { security: [{ bearerAuth: [] }] }) },
+        { API: spec({ '/users': { get: ok, delete: ok } }, { security: [{ basicAuth: [] }] }) }
+      ]);
+
+      expect(errors.map((e) => e.message)).toEqual(['Conflicting security for GET /users']);
+    });
+
+    it('should deduplicate equal schema components and rewrite references', () => {
+      const user = { type: 'object', properties: { id: { type: 'integer', example: 1 } } };
+      const { specs } = mergeMultiSpecDocs([
+        { API: spec({ '/users': { get: ok } }, { components: { schemas: { UserSchema: user } } }) },
+        {
+          API: spec(
+            { '/users/{id}': { get: { responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/IdSchema' } } } } } } } },
+            { components: { schemas: { IdSchema: { ...user, properties: { id: { type: 'integer', example: 2 } } } } } }
+          )
+        }
+      ]);
+
+      expect(Object.keys(specs['API'].components?.schemas || {})).toEqual(['UserSchema']);
+      expect(specs['API'].paths['/users/{id}'].get.responses['200'].content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/UserSchema' });
+    });
+
+    it('should rename different schemas that share a name', () => {
+      const { specs } = mergeMultiSpecDocs([
+        { API: spec({}, { components: { schemas: { ItemSchema: { type: 'object', properties: { id: { type: 'integer' } } } } } }) },
+        {
+          API: spec(
+            { '/items': { get: { responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/ItemSchema' } } } } } } } },
+            { components: { schemas: { ItemSchema: { type: 'object', properties: { sku: { type: 'string' } } } } } }
+          )
+        }
+      ]);
+
+      expect(Object.keys(specs['API'].components?.schemas || {})).toEqual(['ItemSchema', 'ItemSchema1']);
+      expect(specs['API'].paths['/items'].get.responses['200'].content?.['application/json'].schema?.$ref).toBe('#/components/schemas/ItemSchema1');
+    });
+
+    it('should not modify its inputs', () => {
+      const first = { API: spec({ '/users': { get: { summary: 'first', ...ok } } }) };
+      const second = { API: spec({ '/users': { post: ok } }) };
+      const { specs } = mergeMultiSpecDocs([first, second]);
+
+      specs['API'].paths['/users'].get.summary = 'changed';
+      expect(first['API'].paths['/users'].get.summary).toBe('first');
+      expect(Object.keys(first['API'].paths['/users'])).toEqual(['get']);
+    });
+  });
+
+  describe('mergeDiagrams', () => {
+    it('should generate and merge several diagrams', () => {
+      const diagram = (request: string) => parse(tokenize(`participant Client
+participant Orders
+Client->>Orders: ${request}
+Orders-->>Client: 200 OK {"id": 1}
+`));
+      const { specs, errors } = mergeDiagrams([diagram('GET /orders'), diagram('GET /orders/{id}')], { openapiVersion: '3.1.0' });
+
+      expect(errors).toEqual([]);
+      expect(specs['Orders'].openapi).toBe('3.1.0');
+      expect(Object.keys(specs['Orders'].paths)).toEqual(['/orders', '/orders/{id}']);
+    });
+  });
+});
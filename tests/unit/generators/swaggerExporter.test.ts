@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest';
+import { convertToSwagger, generateSwaggerSpecs } from '@/generators/swaggerExporter';
+import type { OpenApiDoc } from '@/types';
+
+describe('swaggerExporter', () => {
+  const baseSpec = (overrides: Partial<OpenApiDoc> = {}): OpenApiDoc => ({
+    openapi: '3.0.0',
+    info: { title: 'API', version: '1.0.0' },
+    paths: {},
+    ...overrides
+  });
+
+  describe('convertToSwagger', () => {
+    it('should emit a Swagger 2.0 document with host, basePath and schemes', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec(), { host: 'api.example.com', basePath: '/v1', schemes: ['https', 'http'] });
+
+      expect(spec).toEqual({
+        swagger: '2.0',
+        info: { title: 'API', version: '1.0.0' },
+        host: 'api.example.com',
+        basePath: '/v1',
+        schemes: ['https', 'http'],
+        paths: {}
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should default basePath to "/" and schemes to https without a host', () => {
+      const { spec } = convertToSwagger(baseSpec());
+
+      expect(spec.host).toBeUndefined();
+      expect(spec.basePath).toBe('/');
+      expect(spec.schemes).toEqual(['https']);
+    });
+
+    it('should move component schemas to definitions and rewrite references', () => {
+      const { spec } = convertToSwagger(baseSpec({
+        paths: {
+          '/users': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: { User: { type: 'object', properties: { id: { type: 'integer' } } } }
+        }
+      }));
+
+      expect(spec.definitions).toEqual({ User: { type: 'object', properties: { id: { type: 'integer' } } } });
+      expect(spec.paths['/users'].get.responses['200']).toEqual({
+        description: 'OK',
+        schema: { type: 'array', items: { $ref: '#/definitions/User' } }
+      });
+      expect(spec.paths['/users'].get.produces).toEqual(['application/json']);
+    });
+
+    it('should turn the request body into a body parameter', () => {
+      const { spec } = convertToSwagger(baseSpec({
+        paths: {
+          '/users/{id}': {
+            put: {
+              parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } }],
+              requestBody: {
+                required: true,
+                content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } }
+              },
+              responses: { '204': { description: 'No Content' } }
+            }
+          }
+        }
+      }));
+
+      const operation = spec.paths['/users/{id}'].put;
+      expect(operation.consumes).toEqual(['application/json']);
+      expect(operation.parameters).toEqual([
+        { name: 'id', in: 'path', required: true, type: 'integer', minimum: 1 },
+        { name: 'body', in: 'body', required: true, schema: { type: 'object', properties: { name: { type: 'string' } } } }
+      ]);
+      expect(operation.responses['204']).toEqual({ description: 'No Content' });
+    });
+
+    it('should turn form request bodies into formData parameters', () => {
+      const { spec } = convertToSwagger(baseSpec({
+        paths: {
+          '/login': {
+            post: {
+              requestBody: {
+                content: {
+                  'application/x-www-form-urlencoded': {
+                    schema: { type: 'object', properties: { user: { type: 'string' }, remember: { type: 'boolean' } }, required: ['user'] }
+                  }
+                }
+              },
+              responses: { '200': { description: 'OK' } }
+            }
+          }
+        }
+      }));
+
+      expect(spec.paths['/login'].post.parameters).toEqual([
+        { name: 'user', in: 'formData', required: true, type: 'string' },
+        { name: 'remember', in: 'formData', type: 'boolean' }
+      ]);
+    });
+
+    it('should convert 3.1 type arrays and examples', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        openapi: '3.1.0',
+        components: {
+          schemas: { Name: { type: ['string', 'null'], examples: ['John'] } }
+        }
+      }));
+
+      expect(spec.definitions?.Name).toEqual({ type: 'string', 'x-nullable': true, example: 'John' });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should keep the first oneOf variant and warn about the others', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        components: {
+          schemas: { Values: { type: 'array', items: { oneOf: [{ type: 'integer' }, { type: 'string' }] } } }
+        }
+      }));
+
+      expect(spec.definitions?.Values).toEqual({ type: 'array', items: { type: 'integer' } });
+      expect(warnings.map((w) => w.message)).toEqual(['"oneOf" cannot be represented in Swagger 2.0']);
+    });
+
+    it('should keep allOf and reduce discriminators to their property name', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        components: {
+          schemas: {
+            Pet: {
+              allOf: [{ $ref: '#/components/schemas/Base' }, { type: 'object', nullable: true }],
+              discriminator: { propertyName: 'kind', mapping: { cat: '#/components/schemas/Cat' } }
+            }
+          }
+        }
+      }));
+
+      expect(spec.definitions?.Pet).toEqual({
+        allOf: [{ $ref: '#/definitions/Base' }, { type: 'object', 'x-nullable': true }],
+        discriminator: 'kind'
+      });
+      expect(warnings.map((w) => w.message)).toEqual(['Discriminator mappings cannot be represented in Swagger 2.0']);
+    });
+
+    it('should keep validation keywords on parameters and drop writeOnly', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        paths: {
+          '/users': {
+            get: {
+              parameters: [{ name: 'status', in: 'query', schema: { type: 'string', enum: ['active', 'banned'], default: 'active', pattern: '^[a-z]+$' } }],
+              responses: { '200': { description: 'OK' } }
+            }
+          }
+        },
+        components: {
+          schemas: { Login: { type: 'object', properties: { password: { type: 'string', writeOnly: true } } } }
+        }
+      }));
+
+      expect(spec.paths['/users'].get.parameters).toEqual([
+        { name: 'status', in: 'query', type: 'string', pattern: '^[a-z]+$', enum: ['active', 'banned'], default: 'active' }
+      ]);
+      expect(spec.definitions?.Login.properties?.password).toEqual({ type: 'string' });
+      expect(warnings.map((w) => w.message)).toEqual(['"writeOnly" cannot be represented in Swagger 2.0']);
+    });
+
+    it('should convert security schemes to security definitions', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        components: {
+          securitySchemes: {
+            basicAuth: { type: 'http', scheme: 'basic' },
+            apiKey_header: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+            oauth2: { type: 'oauth2', flows: { authorizationCode: { authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: { read: 'Read' } } } }
+          }
+        }
+      }));
+
+      expect(spec.securityDefinitions).toEqual({
+        basicAuth: { type: 'basic' },
+        apiKey_header: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+        oauth2: { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: { read: 'Read' } }
+      });
+      expect(warnings).toEqual([]);
+    });
+
+    it('should keep document-level security', () => {
+      const { spec } = convertToSwagger(baseSpec({
+        components: { securitySchemes: { basicAuth: { type: 'http', scheme: 'basic' } } },
+        security: [{ basicAuth: [] }, {}]
+      }));
+
+      expect(spec.security).toEqual([{ basicAuth: [] }, {}]);
+    });
+
+    it('should warn about bearer authentication and approximate it with an API key', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } } }
+      }));
+
+      expect(spec.securityDefinitions?.bearerAuth).toEqual({ type: 'apiKey', name: 'Authorization', in: 'header' });
+      expect(warnings[0].message).toContain('HTTP "bearer" authentication');
+    });
+
+    it('should drop OpenID Connect schemes and the requirements using them', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        paths: {
+          '/me': {
+            get: {
+              security: [{ openIdConnect: [] }],
+              responses: { '200': { description: 'OK' } }
+            }
+          }
+        },
+        components: { securitySchemes: { openIdConnect: { type: 'openIdConnect', openIdConnectUrl: 'https://oidc' } } },
+        security: [{ openIdConnect: [] }]
+      }));
+
+      expect(spec.securityDefinitions).toBeUndefined();
+      expect(spec.security).toBeUndefined();
+      expect(spec.paths['/me'].get.security).toBeUndefined();
+      expect(warnings.some((w) => w.message.includes('"openIdConnect"'))).toBe(true);
+    });
+
+    it('should warn about cookie parameters, webhooks and extra media types', () => {
+      const { spec, warnings } = convertToSwagger(baseSpec({
+        openapi: '3.1.0',
+        paths: {
+          '/cart': {
+            get: {
+              parameters: [{ name: 'session', in: 'cookie', schema: { type: 'string' } }],
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': { schema: { type: 'object' } },
+                    'application/xml': { schema: { type: 'object' } }
+                  }
+                }
+              }
+            }
+          }
+        },
+        webhooks: { '/cart-updated': {} }
+      }));
+
+      expect(spec.paths['/cart'].get.parameters).toBeUndefined();
+      expect(spec.paths['/cart'].get.produces).toEqual(['application/json', 'application/xml']);
+      expect(warnings.map((w) => w.message)).toEqual([
+        'Cookie parameter "session" cannot be represented in Swagger 2.0',
+        'Response 200 has several media types, which share one schema in Swagger 2.0',
+        'Webhooks cannot be represented in Swagger 2.0'
+      ]);
+      expect(warnings.every((w) => w.severity === 'warning')).toBe(true);
+    });
+  });
+
+  describe('generateSwaggerSpecs', () => {
+    it('should convert every spec and prefix warnings with the server name', () => {
+      const result = generateSwaggerSpecs({
+        Users: baseSpec(),
+        Orders: baseSpec({ webhooks: { '/shipped': {} } })
+      });
+
+      expect(Object.keys(result.specs)).toEqual(['Users', 'Orders']);
+      expect(result.specs.Users.swagger).toBe('2.0');
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0].context).toBe('Orders: /shipped');
+    });
+  });
+});
@@ -4,7 +4,7 @@ import { toYaml } from '@/generators/yamlFormatter';
 describe('yamlFormatter', () => {
   describe('toYaml', () => {
     it('should handle primitive values', () => {
-      expect(toYaml('string')).toBe('"string"\n');
+      expect(toYaml('string')).toBe('string\n');
       expect(toYaml(42)).toBe('42\n');
       expect(toYaml(3.14)).toBe('3.14\n');
       expect(toYaml(true)).toBe('true\n');
@@ -14,7 +14,7 @@ describe('yamlFormatter', () => {
 
     it('should handle simple key-value pairs', () => {
       const result = toYaml({ name: 'test', count: 42 });
-      expect(result).toContain('name: "test"');
+      expect(result).toContain('name: test');
       expect(result).toContain('count: 42');
     });
 
@@ -25,7 +25,7 @@ describe('yamlFormatter', () => {
           age: 30
         }
       });
-      expect(result).toBe('user:\n  name: "John"\n  age: 30\n');
+      expect(result).toBe('user:\n  name: John\n  age: 30\n');
     });
 
     it('should handle arrays of primitives', () => {
@@ -57,9 +57,9 @@ describe('yamlFormatter', () => {
       });
       expect(result).toContain('users:');
       expect(result).toContain('  - id: 1');
-      expect(result).toContain('    name: "John"');
+      expect(result).toContain('    name: John');
       expect(result).toContain('  - id: 2');
-      expect(result).toContain('    name: "Jane"');
+      expect(result).toContain('    name: Jane');
     });
 
     it('should handle empty objects', () => {
@@ -73,7 +73,7 @@ describe('yamlFormatter', () => {
         undefined: undefined,
         count: 42
       });
-      expect(result).toContain('name: "test"');
+      expect(result).toContain('name: test');
       expect(result).toContain('count: 42');
       expect(result).not.toContain('undefined:');
     });
@@ -91,7 +91,7 @@ describe('yamlFormatter', () => {
       expect(result).toContain('level1:');
       expect(result).toContain('  level2:');
       expect(result).toContain('    level3:');
-      expect(result).toContain('      value: "deep"');
+      expect(result).toContain('      value: deep');
     });
 
     it('should handle mixed content', () => {
@@ -109,14 +109,14 @@ describe('yamlFormatter', () => {
         tags: ['api', 'test']
       });
 
-      expect(result).toContain('name: "Test API"');
+      expect(result).toContain('name: Test API');
       expect(result).toContain('version: "1.0.0"');
       expect(result).toContain('info:');
-      expect(result).toContain('  title: "Test"');
-      expect(result).toContain('  description: "A test API"');
+      expect(result).toContain('  title: Test');
+      expect(result).toContain('  description: A test API');
       expect(result).toContain('servers:');
-      expect(result).toContain('  - url: "https://api.example.com"');
-      expect(result).toContain('  - url: "https://api2.example.com"');
+      expect(result).toContain('  - url: https://api.example.com');
+      expect(result).toContain('  - url: https://api2.example.com');
       expect(result).toContain('tags:');
       expect(result).toContain('  - api');
       expect(result).toContain('  - test');
@@ -142,7 +142,7 @@ describe('yamlFormatter', () => {
       const result = toYaml({
         items: []
       });
-      expect(result).toContain('items:');
+      expect(result).toBe('items: []\n');
     });
 
     it('should properly format OpenAPI-like structure', () => {
@@ -170,15 +170,15 @@ describe('yamlFormatter', () => {
 
       expect(result).toContain('openapi: "3.0.0"');
       expect(result).toContain('info:');
-      expect(result).toContain('  title: "Sample API"');
+      expect(result).toContain('  title: Sample API');
       expect(result).toContain('  version: "1.0.0"');
       expect(result).toContain('paths:');
       expect(result).toContain('  /users:');
       expect(result).toContain('    get:');
-      expect(result).toContain('      summary: "List users"');
+      expect(result).toContain('      summary: List users');
       expect(result).toContain('      responses:');
-      expect(result).toContain('        200:');
-      expect(result).toContain('          description: "Success"');
+      expect(result).toContain('        "200":');
+      expect(result).toContain('          description: Success');
     });
 
     it('should handle indentation correctly for nested structures', () => {
@@ -211,8 +211,8 @@ describe('yamlFormatter', () => {
         message: 'Hello "World"',
         path: 'C:\\Users\\test'
       });
-      expect(result).toContain('message: "Hello \\"World\\""');
-      expect(result).toContain('path: "C:\\\\Users\\\\test"');
+      expect(result).toContain('message: Hello "World"');
+      expect(result).toContain('path: C:\\Users\\test');
     });
 
     it('should handle zero and negative numbers', () => {
@@ -230,7 +230,7 @@ describe('yamlFormatter', () => {
       const result = toYaml({ nested: { value: 'test' } }, 2);
       const lines = result.split('\n');
       expect(lines[0]).toBe('    nested:');
-      expect(lines[1]).toBe('      value: "test"');
+      expect(lines[1]).toBe('      value: test');
     });
 
     it('should handle arrays with null values', () => {
@@ -252,7 +252,73 @@ describe('yamlFormatter', () => {
       expect(result).toContain('  - 42');
       expect(result).toContain('  - true');
       expect(result).toContain('  - null');
-      expect(result).toContain('  - key: "value"');
+      expect(result).toContain('  - key: value');
+    });
+
+    it('should quote strings that would be read as other types', () => {
+      const result = toYaml({ answer: 'yes', version: '1.0', empty: '', missing: 'null', tilde: '~' });
+      expect(result).toBe('answer: "yes"\nversion: "1.0"\nempty: ""\nmissing: "null"\ntilde: "~"\n');
+    });
+
+    it('should quote strings that would break plain scalars', () => {
+      const result = toYaml({
+        tags: ['#tag', 'key: value', '- item', 'trailing '],
+        'a: b': 'url: https://example.com'
+      });
+      expect(result).toBe(
+        'tags:\n  - "#tag"\n  - "key: value"\n  - "- item"\n  - "trailing "\n"a: b": "url: https://example.com"\n'
+      );
+    });
+
+    it('should leave strings plain when quoting is not needed', () => {
+      const result = toYaml({ path: '/users/{id}', url: 'https://example.com', summary: 'Get user (v2)' });
+      expect(result).toBe('path: /users/{id}\nurl: https://example.com\nsummary: Get user (v2)\n');
+    });
+
+    it('should escape non-printable characters', () => {
+      expect(toYaml({ value: 'a\u0000b\u0085c' })).toBe('value: "a\\u0000b\\u0085c"\n');
+    });
+
+    it('should write multi-line strings as literal block scalars', () => {
+      const result = toYaml({ description: 'First line\n\nSecond line', notes: ['one\ntwo\n'] });
+      expect(result).toBe('description: |-\n  First line\n\n  Second line\nnotes:\n  - |\n    one\n    two\n');
+    });
+
+    it('should keep trailing line breaks of block scalars', () => {
+      expect(toYaml({ text: 'a\n\n' })).toBe('text: |+\n  a\n\n');
+    });
+
+    it('should fold long single-line strings at spaces', () => {
+      const description = `${'word '.repeat(20)}end: with "quotes"`;
+      expect(toYaml({ info: { description } })).toBe(
+        `info:\n  description: >-\n    ${'word '.repeat(15)}word\n    word word word word end: with "quotes"\n`
+      );
+    });
+
+    it('should keep long strings on one line when they cannot be folded', () => {
+      const path = `/${'segment/'.repeat(12)}`;
+      expect(toYaml({ path })).toBe(`path: ${path}\n`);
+      expect(toYaml({ text: `${'a '.repeat(50)}` })).toBe(`text: "${'a '.repeat(50)}"\n`);
+    });
+
+    it('should quote multi-line strings starting with whitespace', () => {
+      expect(toYaml({ text: ' indented\nline' })).toBe('text: " indented\\nline"\n');
+    });
+
+    it('should handle nested arrays and empty collections in arrays', () => {
+      const result = toYaml({ matrix: [[1, 2], [], [{}]] });
+      expect(result).toBe('matrix:\n  - - 1\n    - 2\n  - []\n  - - {}\n');
+    });
+
+    it('should handle arrays at the top level', () => {
+      expect(toYaml(['a', { b: 1 }])).toBe('- a\n- b: 1\n');
+      expect(toYaml([])).toBe('[]\n');
+    });
+
+    it('should write special numbers', () => {
+      expect(toYaml({ nan: NaN, inf: Infinity, negInf: -Infinity, negZero: -0 })).toBe(
+        'nan: .nan\ninf: .inf\nnegInf: -.inf\nnegZero: -0.0\n'
+      );
     });
   });
 });
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { extractMermaidFences } from '@/parser/markdown';
+
+describe('extractMermaidFences', () => {
+  it('should extract sequence diagram fences with their line offsets', () => {
+    const markdown = [
+      '# Orders',
+      '',
+      '```mermaid',
+      'sequenceDiagram',
+      '  participant API',
+      '```',
+      '',
+      'Text',
+      '~~~mermaid',
+      'sequenceDiagram',
+      '~~~'
+    ].join('\n');
+
+    expect(extractMermaidFences(markdown)).toEqual([
+      { source: 'sequenceDiagram\n  participant API', lineOffset: 3 },
+      { source: 'sequenceDiagram', lineOffset: 9 }
+    ]);
+  });
+
+  it('should skip other languages and other Mermaid diagram types', () => {
+    const markdown = [
+      '```ts',
+      'sequenceDiagram',
+      '```',
+      '```mermaid',
+      'flowchart LR',
+      '  A --> B',
+      '```'
+    ].join('\n');
+
+    expect(extractMermaidFences(markdown)).toEqual([]);
+  });
+
+  it('should allow comments before the diagram type and attributes after the language', () => {
+    const markdown = '```mermaid title="Checkout"\n%% checkout flow\nsequenceDiagram\n```';
+
+    expect(extractMermaidFences(markdown)).toHaveLength(1);
+  });
+
+  it('should only close a fence with a matching marker of at least the same length', () => {
+    const markdown = [
+      '````mermaid',
+      'sequenceDiagram',
+      '```',
+      '~~~~',
+      '````',
+      'after'
+    ].join('\n');
+
+    expect(extractMermaidFences(markdown)).toEqual([
+      { source: 'sequenceDiagram\n```\n~~~~', lineOffset: 1 }
+    ]);
+  });
+
+  it('should strip the opening fence indentation from indented fences', () => {
+    const markdown = '  ```mermaid\n  sequenceDiagram\n    participant API\n  ```';
+
+    expect(extractMermaidFences(markdown)[0].source).toBe('sequenceDiagram\n  participant API');
+  });
+
+  it('should run an unclosed fence to the end of the document', () => {
+    expect(extractMermaidFences('```mermaid\nsequenceDiagram\n  participant API')).toEqual([
+      { source: 'sequenceDiagram\n  participant API', lineOffset: 1 }
+    ]);
+  });
+});
@@ -570,6 +570,138 @@ User->>API: GET /users`;
       });
     });
 
+    describe('Response Payloads', () => {
+      it('should split inline JSON from the response description', () => {
+        const tokens = tokenize('API-->>User: 200 Found products { "items": [] }');
+        expect(tokens[0].description).toBe('Found products');
+        expect(tokens[0].body).toBe('{ "items": [] }');
+      });
+
+      it('should accept a payload without description', () => {
+        const tokens = tokenize('API-->>User: 200 [{ "id": 1 }]');
+        expect(tokens[0].description).toBe('');
+        expect(tokens[0].body).toBe('[{ "id": 1 }]');
+      });
+
+      it('should keep braces that do not close the line in the description', () => {
+        const tokens = tokenize('API-->>User: 200 Returns {id} of user');
+        expect(tokens[0].description).toBe('Returns {id} of user');
+        expect(tokens[0].body).toBeUndefined();
+      });
+
+      it('should keep bracketed prose at the end of the description', () => {
+        const tokens = tokenize('API-->>User: 200 Returns a list [paginated]');
+        expect(tokens[0].description).toBe('Returns a list [paginated]');
+        expect(tokens[0].body).toBeUndefined();
+
+        const withPayload = tokenize('API-->>User: 200 Returns a list [paginated] [{ "id": 1 }]');
+        expect(withPayload[0].description).toBe('Returns a list [paginated]');
+        expect(withPayload[0].body).toBe('[{ "id": 1 }]');
+      });
+    });
+
+    describe('Blocks', () => {
+      it('should tokenize block keywords with labels', () => {
+        const input = `alt user found
+else not found
+end`;
+        const tokens = tokenize(input);
+        expect(tokens).toEqual([
+          { type: 'block', line: 1, keyword: 'alt', label: 'user found' },
+          { type: 'block', line: 2, keyword: 'else', label: 'not found' },
+          { type: 'block', line: 3, keyword: 'end', label: '' }
+        ]);
+      });
+
+      it('should tokenize all block kinds case-insensitively', () => {
+        const input = ['OPT a', 'loop b', 'par c', 'and d', 'critical e', 'option f', 'break g', 'rect rgb(0,0,0)'].join('\n');
+        const tokens = tokenize(input);
+        expect(tokens.map(t => t.keyword)).toEqual(['opt', 'loop', 'par', 'and', 'critical', 'option', 'break', 'rect']);
+      });
+
+      it('should not treat participants starting with a keyword as blocks', () => {
+        const tokens = tokenize('Endpoint->>Alternative: GET /users');
+        expect(tokens[0].type).toBe('request');
+      });
+    });
+
+    describe('Participant Aliases', () => {
+      it('should tokenize participant alias', () => {
+        const tokens = tokenize('participant OS as Order Service');
+        expect(tokens[0]).toMatchObject({ type: 'participant', name: 'OS', alias: 'Order Service', participantKind: 'participant' });
+      });
+
+      it('should tokenize actor declarations', () => {
+        const tokens = tokenize('actor User\nactor A as Admin');
+        expect(tokens[0]).toMatchObject({ type: 'participant', name: 'User', participantKind: 'actor' });
+        expect(tokens[0].alias).toBeUndefined();
+        expect(tokens[1]).toMatchObject({ name: 'A', alias: 'Admin', participantKind: 'actor' });
+      });
+    });
+
+    describe('Multi-line Bodies', () => {
+      it('should join continuation lines until the body is balanced', () => {
+        const input = `User->>API: POST /users
+Note over API: Body: {
+  "name": "John",
+  "roles": ["admin"]
+}
+API-->>User: 201 Created`;
+        const tokens = tokenize(input);
+
+        expect(tokens.map(t => t.type)).toEqual(['request', 'note', 'response']);
+        expect(tokens[1]).toMatchObject({ line: 2, endLine: 5 });
+        expect(tokens[1].content).toBe('Body: {\n"name": "John",\n"roles": ["admin"]\n}');
+        expect(tokens[2].line).toBe(6);
+      });
+
+      it('should stop continuing at the next statement', () => {
+        const input = `Note over API: Body: {"name": "John"
+API-->>User: 201 Created`;
+        const tokens = tokenize(input);
+
+        expect(tokens[0].endLine).toBeUndefined();
+        expect(tokens[1].type).toBe('response');
+      });
+    });
+
+    describe('Schema Definitions', () => {
+      it('should read schema definitions from comments', () => {
+        const input = `%% @schema User {"id": 1, "name": "John"}
+%% @schema Tags ["a"]
+%% schema Ignored {}`;
+        const tokens = tokenize(input);
+
+        expect(tokens).toEqual([
+          { type: 'schema', line: 1, name: 'User', body: '{"id": 1, "name": "John"}' },
+          { type: 'schema', line: 2, name: 'Tags', body: '["a"]' }
+        ]);
+      });
+
+      it('should continue definitions on the following comment lines until balanced', () => {
+        const input = `%% @schema User {
+%%   "id": 1,
+%%   "name": "John"
+%% }
+%% A regular comment
+User->>API: GET /users`;
+        const tokens = tokenize(input);
+
+        expect(tokens.map(t => t.type)).toEqual(['schema', 'request']);
+        expect(tokens[0]).toMatchObject({ line: 1, endLine: 4, body: '{\n"id": 1,\n"name": "John"\n}' });
+      });
+
+      it('should stop continuing definitions at lines that are not comments', () => {
+        const input = `%% @schema User {"id": 1
+User->>API: GET /users`;
+        const tokens = tokenize(input);
+
+        expect(tokens[0]).toMatchObject({ type: 'schema', body: '{"id": 1' });
+        expect(tokens[0].endLine).toBeUndefined();
+        expect(tokens[1].type).toBe('request');
+      });
+    });
+
     // Edge Case Tests: Malformed Arrow Syntax
     describe('Edge Cases: Malformed Arrow Syntax', () => {
       it('should handle request with single arrow', () => {
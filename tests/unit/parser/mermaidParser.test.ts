@@ -664,6 +664,336 @@ describe('mermaidParser', () => {
       });
     });
 
+    describe('Multiple Responses', () => {
+      it('should collect consecutive responses for the same request', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/orders' },
+          { type: 'response', line: 2, source: 'API', target: 'User', status: '201', description: 'Created' },
+          { type: 'response', line: 3, source: 'API', target: 'User', status: '404', description: 'Not Found' },
+          { type: 'response', line: 4, source: 'API', target: 'User', status: '422', description: 'Invalid' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].response?.status).toBe('201');
+        expect(ast.interactions[0].responses?.map(r => r.status)).toEqual(['201', '404', '422']);
+        expect(ast.interactions[0].responses?.[2]).toMatchObject({ description: 'Invalid', line: 4 });
+        expect(ast.notes).toHaveLength(0);
+      });
+
+      it('should stop collecting responses at the next request', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'response', line: 2, source: 'API', target: 'User', status: '200' },
+          { type: 'request', line: 3, source: 'User', target: 'Other', method: 'GET', path: '/posts' },
+          { type: 'response', line: 4, source: 'API', target: 'User', status: '500' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].responses).toHaveLength(1);
+        expect(ast.notes).toHaveLength(1);
+        expect(ast.notes[0].message).toContain('orphaned');
+      });
+
+      it('should not collect responses travelling in another direction', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'response', line: 2, source: 'API', target: 'User', status: '200' },
+          { type: 'response', line: 3, source: 'Database', target: 'API', status: '500' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].responses).toHaveLength(1);
+        expect(ast.notes).toHaveLength(1);
+      });
+    });
+
+    describe('Response Payloads', () => {
+      it('should parse inline JSON payloads on responses', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'response', line: 2, source: 'API', target: 'User', status: '200', description: 'OK', body: '{"items": []}' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].response?.body).toEqual({ items: [] });
+        expect(ast.interactions[0].response?.description).toBe('OK');
+      });
+
+      it('should add error note for invalid inline JSON', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'response', line: 2, source: 'API', target: 'User', status: '200', body: '{items: []}' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].response?.body).toBeUndefined();
+        expect(ast.notes).toHaveLength(1);
+        expect(ast.notes[0]).toMatchObject({ type: 'error', line: 2 });
+      });
+    });
+
+    describe('Blocks', () => {
+      it('should build nested block structure', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'block', line: 1, keyword: 'loop', label: 'every minute' },
+          { type: 'request', line: 2, source: 'User', target: 'API', method: 'GET', path: '/status' },
+          { type: 'block', line: 3, keyword: 'opt', label: 'degraded' },
+          { type: 'request', line: 4, source: 'API', target: 'Pager', method: 'POST', path: '/alerts' },
+          { type: 'block', line: 5, keyword: 'end', label: '' },
+          { type: 'block', line: 6, keyword: 'end', label: '' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.blocks).toHaveLength(1);
+        expect(ast.blocks![0]).toMatchObject({ kind: 'loop', line: 1, endLine: 6 });
+        expect(ast.blocks![0].branches[0].label).toBe('every minute');
+        expect(ast.blocks![0].branches[0].interactions.map(i => i.path)).toEqual(['/status']);
+        expect(ast.blocks![0].branches[0].blocks[0]).toMatchObject({ kind: 'opt', endLine: 5 });
+        expect(ast.blocks![0].branches[0].blocks[0].branches[0].interactions[0].path).toBe('/alerts');
+        expect(ast.interactions).toHaveLength(2);
+        expect(ast.notes).toHaveLength(0);
+      });
+
+      it('should collect alt branch responses using branch labels', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users/{id}' },
+          { type: 'block', line: 2, keyword: 'alt', label: 'user found' },
+          { type: 'response', line: 3, source: 'API', target: 'User', status: '200', description: 'OK' },
+          { type: 'block', line: 4, keyword: 'else', label: 'user missing' },
+          { type: 'response', line: 5, source: 'API', target: 'User', status: '404' },
+          { type: 'block', line: 6, keyword: 'else', label: '' },
+          { type: 'response', line: 7, source: 'API', target: 'User', status: '500', description: 'Boom' },
+          { type: 'block', line: 8, keyword: 'end', label: '' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].responses).toMatchObject([
+          { status: '200', description: 'user found' },
+          { status: '404', description: 'user missing' },
+          { status: '500', description: 'Boom' }
+        ]);
+        expect(ast.blocks![0].branches).toHaveLength(3);
+        expect(ast.notes).toHaveLength(0);
+      });
+
+      it('should pair alt branch responses after nested calls', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'block', line: 2, keyword: 'alt', label: 'cache hit' },
+          { type: 'response', line: 3, source: 'API', target: 'User', status: '200' },
+          { type: 'block', line: 4, keyword: 'else', label: 'cache miss' },
+          { type: 'request', line: 5, source: 'API', target: 'DB', method: 'GET', path: '/rows' },
+          { type: 'response', line: 6, source: 'DB', target: 'API', status: '200' },
+          { type: 'response', line: 7, source: 'API', target: 'User', status: '203' },
+          { type: 'block', line: 8, keyword: 'end', label: '' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].responses?.map(r => r.status)).toEqual(['200', '203']);
+        expect(ast.interactions[1].responses?.map(r => r.description)).toEqual([undefined]);
+        expect(ast.notes).toHaveLength(0);
+      });
+
+      it('should pair a response with an outer request after nested calls', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'Gateway', method: 'GET', path: '/products' },
+          { type: 'request', line: 2, source: 'Gateway', target: 'Products', method: 'GET', path: '/internal' },
+          { type: 'response', line: 3, source: 'Products', target: 'Gateway', status: '200' },
+          { type: 'response', line: 4, source: 'Gateway', target: 'User', status: '200' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].response?.line).toBe(4);
+        expect(ast.interactions[1].response?.line).toBe(3);
+        expect(ast.notes).toHaveLength(0);
+      });
+
+      it('should warn about unbalanced blocks', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'block', line: 1, keyword: 'end', label: '' },
+          { type: 'block', line: 2, keyword: 'else', label: '' },
+          { type: 'block', line: 3, keyword: 'opt', label: 'never closed' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.notes.map(n => n.line)).toEqual([1, 2, 3]);
+        ast.notes.forEach(note => expect(note.type).toBe('warning'));
+      });
+    });
+
+    describe('Participant Table', () => {
+      it('should build participant table with labels and kinds', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'participant', line: 1, name: 'U', alias: 'Customer', participantKind: 'actor' },
+          { type: 'participant', line: 2, name: 'OS', alias: 'Order Service', participantKind: 'participant' },
+          { type: 'request', line: 3, source: 'OS', target: 'DB', method: 'GET', path: '/rows' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.participants).toEqual(['U', 'OS', 'DB']);
+        expect(ast.participantTable).toEqual([
+          { id: 'U', label: 'Customer', kind: 'actor' },
+          { id: 'OS', label: 'Order Service', kind: 'participant' },
+          { id: 'DB', label: 'DB', kind: 'participant' }
+        ]);
+      });
+    });
+
+    describe('Parameter Declarations', () => {
+      it('should parse header, cookie, query and path declarations', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users/{id}' },
+          {
+            type: 'note',
+            line: 2,
+            participants: ['API'],
+            content: 'Header: X-Request-Id string, required, format:uuid\\nCookie: session\\nQuery: limit integer, min:1\\nPath: id integer',
+            noteType: 'info'
+          }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].parameters).toEqual([
+          { name: 'X-Request-Id', in: 'header', definition: 'string, required, format:uuid' },
+          { name: 'session', in: 'cookie', definition: undefined },
+          { name: 'limit', in: 'query', definition: 'integer, min:1' },
+          { name: 'id', in: 'path', definition: 'integer' }
+        ]);
+      });
+
+      it('should not treat other directives as parameters', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'note', line: 2, participants: ['API'], content: 'Security: apiKey in query', noteType: 'info' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].parameters).toBeUndefined();
+      });
+    });
+
+    describe('Multi-line Bodies', () => {
+      it('should parse bodies spanning several lines', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, endLine: 5, participants: ['API'], content: 'Body: {\n"name": "John",\n"age": 30\n}\nSummary: Create', noteType: 'body' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].body).toEqual({ name: 'John', age: 30 });
+        expect(ast.interactions[0].summary).toBe('Create');
+      });
+
+      it('should parse a body followed by other directives', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, participants: ['API'], content: 'Body: {"name": "John"}\\nSecurity: bearerAuth', noteType: 'body' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].body).toEqual({ name: 'John' });
+        expect(ast.interactions[0].security).toEqual(['bearerAuth']);
+      });
+
+      it('should report the offending line inside the body', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, endLine: 5, participants: ['API'], content: 'Body: {\n"name": "John",\nage: 30\n}', noteType: 'body' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.notes).toHaveLength(1);
+        expect(ast.notes[0]).toMatchObject({ type: 'error', line: 4 });
+      });
+    });
+
+    describe('Request and Response Bodies', () => {
+      it('should parse Request-Body and Response-Body directives separately', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, participants: ['API'], content: 'Request-Body: {"name": "John"}\\nResponse-Body: {"id": 1, "name": "John"}', noteType: 'body' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].requestBody).toEqual({ name: 'John' });
+        expect(ast.interactions[0].responseBody).toEqual({ id: 1, name: 'John' });
+        expect(ast.interactions[0].body).toBeUndefined();
+      });
+
+      it('should attach a note placed after a response to that response', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, participants: ['API'], content: 'Body: {"name": "John"}', noteType: 'body' },
+          { type: 'response', line: 3, source: 'API', target: 'User', status: '201' },
+          { type: 'note', line: 4, participants: ['API'], content: 'Body: {"id": 1}', noteType: 'body' },
+          { type: 'response', line: 5, source: 'API', target: 'User', status: '409' },
+          { type: 'note', line: 6, participants: ['API'], content: 'Response-Body: {"error": "exists"}', noteType: 'body' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].body).toEqual({ name: 'John' });
+        expect(ast.interactions[0].responses?.[0].body).toEqual({ id: 1 });
+        expect(ast.interactions[0].responses?.[1].body).toEqual({ error: 'exists' });
+      });
+
+      it('should report invalid JSON in response-scoped notes', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+          { type: 'response', line: 2, source: 'API', target: 'User', status: '200' },
+          { type: 'note', line: 3, participants: ['API'], content: 'Body: {id: 1}', noteType: 'body' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.interactions[0].responses?.[0].body).toBeUndefined();
+        expect(ast.notes[0]).toMatchObject({ type: 'error', line: 3 });
+      });
+    });
+
+    describe('Named Bodies', () => {
+      it('should collect named body payloads and the names each body refers to', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, participants: ['API'], content: 'Body<User>: {"name": "John"}', noteType: 'body' },
+          { type: 'response', line: 3, source: 'API', target: 'User', status: '201' },
+          { type: 'note', line: 4, participants: ['API'], content: 'Response-Body<User>:', noteType: 'body' },
+          { type: 'request', line: 5, source: 'User', target: 'API', method: 'GET', path: '/users/{id}' },
+          { type: 'note', line: 6, participants: ['API'], content: 'Summary: Get user\\nResponse-Body<User>: {"name": "Jane"}', noteType: 'info' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.schemas).toEqual({ User: { name: 'John' } });
+        expect(ast.interactions[0]).toMatchObject({ body: { name: 'John' }, bodySchema: 'User' });
+        expect(ast.interactions[0].responses?.[0]).toMatchObject({ bodySchema: 'User' });
+        expect(ast.interactions[0].responses?.[0].body).toBeUndefined();
+        expect(ast.interactions[1]).toMatchObject({ responseBody: { name: 'Jane' }, responseBodySchema: 'User' });
+        expect(ast.notes).toEqual([]);
+      });
+
+      it('should prefer diagram-level schema definitions over named bodies', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'request', line: 1, source: 'User', target: 'API', method: 'POST', path: '/users' },
+          { type: 'note', line: 2, participants: ['API'], content: 'Body<User>: {"name": "John"}', noteType: 'body' },
+          { type: 'schema', line: 3, name: 'User', body: '{"id": 1, "name": "John"}' },
+          { type: 'schema', line: 4, name: 'User', body: '{"id": 2}' },
+          { type: 'schema', line: 5, name: 'Error', body: '{"message": "string"}' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.schemas).toEqual({ User: { id: 1, name: 'John' }, Error: { message: 'string' } });
+        expect(ast.interactions[0].body).toEqual({ name: 'John' });
+      });
+
+      it('should report invalid JSON in schema definitions', () => {
+        const tokens: MermaidToken[] = [
+          { type: 'schema', line: 1, endLine: 3, name: 'User', body: '{\n"id": 1,\n}' }
+        ];
+        const ast = parse(tokens);
+
+        expect(ast.schemas).toEqual({});
+        expect(ast.notes[0]).toMatchObject({ type: 'error', line: 3 });
+      });
+    });
+
     describe('Edge Cases: Large Numbers of Participants', () => {
       it('should handle many participants', () => {
         const tokens: MermaidToken[] = [];
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { extractBodyJson, getJsonErrorLineOffset, hasIncompleteBody } from '@/parser/noteBody';
+
+describe('noteBody', () => {
+  describe('extractBodyJson', () => {
+    it('should return null when there is no body directive', () => {
+      expect(extractBodyJson('Summary: Get users')).toBeNull();
+    });
+
+    it('should extract a single-line body', () => {
+      expect(extractBodyJson('Body: {"id": 1}')).toEqual({ json: '{"id": 1}', complete: true });
+    });
+
+    it('should stop at the balanced closing brace', () => {
+      const payload = extractBodyJson('Body: {"id": 1}\\nSecurity: bearerAuth');
+      expect(payload).toEqual({ json: '{"id": 1}', complete: true });
+    });
+
+    it('should ignore braces inside strings', () => {
+      const payload = extractBodyJson('Body: {"text": "a } b \\" {"}');
+      expect(payload?.json).toBe('{"text": "a } b \\" {"}');
+      expect(payload?.complete).toBe(true);
+    });
+
+    it('should turn escaped newlines between tokens into real newlines', () => {
+      const payload = extractBodyJson('Body: {\\n  "id": 1,\\n  "name": "a\\nb"\\n}');
+      expect(payload?.json).toBe('{\n  "id": 1,\n  "name": "a\\nb"\n}');
+      expect(JSON.parse(payload!.json)).toEqual({ id: 1, name: 'a\nb' });
+    });
+
+    it('should span real newlines', () => {
+      const payload = extractBodyJson('Body: {\n"items": [\n1,\n2\n]\n}');
+      expect(JSON.parse(payload!.json)).toEqual({ items: [1, 2] });
+    });
+
+    it('should report unbalanced payloads as incomplete', () => {
+      expect(extractBodyJson('Body: {"items": [1, 2')).toEqual({ json: '{"items": [1, 2', complete: false });
+    });
+
+    it('should read primitive payloads until the end of the line', () => {
+      expect(extractBodyJson('Body: "text"\\nTags: a')).toEqual({ json: '"text"', complete: true });
+    });
+  });
+
+  describe('body directives', () => {
+    it('should keep Body: apart from Request-Body: and Response-Body:', () => {
+      const content = 'Request-Body: {"name": "a"}\\nResponse-Body: {"id": 1}';
+      expect(extractBodyJson(content)).toBeNull();
+      expect(extractBodyJson(content, 'Request-Body')?.json).toBe('{"name": "a"}');
+      expect(extractBodyJson(content, 'Response-Body')?.json).toBe('{"id": 1}');
+    });
+
+    it('should find Body: after an escaped newline', () => {
+      expect(extractBodyJson('Summary: x\\nBody: {"id": 1}')?.json).toBe('{"id": 1}');
+    });
+
+    it('should read the schema name of named directives', () => {
+      expect(extractBodyJson('Body<User>: {"id": 1}')).toEqual({ json: '{"id": 1}', complete: true, schemaName: 'User' });
+      expect(extractBodyJson('Response-Body<Order.Item>:\\nTags: a', 'Response-Body')).toEqual({
+        json: '',
+        complete: true,
+        schemaName: 'Order.Item'
+      });
+      expect(extractBodyJson('Body<1st>: {}')).toBeNull();
+    });
+
+    it('should only read directives at the start of a line', () => {
+      expect(extractBodyJson('see Body: described above')).toBeNull();
+      expect(extractBodyJson('Summary: Create\n  Body: {"id": 1}')?.json).toBe('{"id": 1}');
+    });
+
+    it('should detect incomplete bodies for any directive', () => {
+      expect(hasIncompleteBody('Response-Body: {"id": 1')).toBe(true);
+      expect(hasIncompleteBody('Request-Body: {"id": 1}')).toBe(false);
+      expect(hasIncompleteBody('Summary: {')).toBe(false);
+    });
+  });
+
+  describe('getJsonErrorLineOffset', () => {
+    const lineOf = (json: string) => {
+      try {
+        JSON.parse(json);
+      } catch (error) {
+        return getJsonErrorLineOffset(json, error);
+      }
+      return -1;
+    };
+
+    it('should point at the offending line', () => {
+      expect(lineOf('{\n"a": 1,\nb: 2\n}')).toBe(2);
+    });
+
+    it('should find the line of unexpected tokens reported without a position', () => {
+      expect(lineOf('{\n"a": 1,\n"b": x,\n"c": 2\n}')).toBe(2);
+      expect(getJsonErrorLineOffset(
+        '{\n"a": 1,\n"b": x\n}',
+        new SyntaxError('Unexpected token \'x\', ..."a": 1,\n"b": x\n}" is not valid JSON')
+      )).toBe(2);
+    });
+
+    it('should point at the first line for single-line payloads', () => {
+      expect(lineOf('{"a": }')).toBe(0);
+    });
+
+    it('should not count escaped separators of single-line bodies as lines', () => {
+      const payload = extractBodyJson('Body: {\\n"a": 1,\\nb: 2\\n}')!;
+      let offset = -1;
+      try {
+        JSON.parse(payload.json);
+      } catch (error) {
+        offset = getJsonErrorLineOffset(payload.json, error, payload.escapedNewlines);
+      }
+
+      expect(payload.escapedNewlines).toEqual([1, 9, 14]);
+      expect(offset).toBe(0);
+      expect(getJsonErrorLineOffset(payload.json, new SyntaxError('bad at line 3 column 1 of the JSON data'), payload.escapedNewlines)).toBe(0);
+    });
+
+    it('should understand line/column style messages', () => {
+      expect(getJsonErrorLineOffset('', new SyntaxError('JSON.parse: bad at line 3 column 2 of the JSON data'))).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseSchemaDefinition, quoteDefinitionValue } from '@/parser/schemaDefinition';
+
+describe('schemaDefinition', () => {
+  describe('parseSchemaDefinition', () => {
+    it('should read types, flags and options', () => {
+      expect(parseSchemaDefinition('integer|null, required, min:1, readOnly')).toEqual({
+        types: ['integer', 'null'],
+        flags: ['required', 'readOnly'],
+        options: { min: '1' },
+        problems: []
+      });
+    });
+
+    it('should treat plain text as an example', () => {
+      expect(parseSchemaDefinition('Hello, world')).toBeUndefined();
+      expect(parseSchemaDefinition('12:30')).toBeUndefined();
+      expect(parseSchemaDefinition('Note: call me, maybe')).toBeUndefined();
+    });
+
+    it('should keep colons in option values', () => {
+      expect(parseSchemaDefinition('string, example:http://x.io/a, pattern:^\\d{2}:\\d{2}$')?.options).toEqual({
+        example: 'http://x.io/a',
+        pattern: '^\\d{2}:\\d{2}$'
+      });
+    });
+
+    it('should read quoted and escaped values', () => {
+      const definition = parseSchemaDefinition(`string, example:"Hello, \\"world\\"", default:a\\,b, enum:'x|y'|z\\|w|a\\,b`);
+
+      expect(definition?.options.example).toBe('Hello, "world"');
+      expect(definition?.options.default).toBe('a,b');
+      expect(definition?.enumValues).toEqual(['x|y', 'z|w', 'a,b']);
+      expect(definition?.problems).toEqual([]);
+    });
+
+    it('should report malformed items and keep reading', () => {
+      const definition = parseSchemaDefinition('string, mn:1, max:x, , wat, integer, min:1, min:2, example:"open');
+
+      expect(definition?.options).toEqual({ min: '1', example: 'open' });
+      expect(definition?.problems.map(problem => problem.message)).toEqual([
+        'Unterminated quote in definition: "open',
+        'Unknown option "mn" in definition',
+        'Option "max" expects a number, got "x"',
+        'Empty item in definition',
+        'Unknown keyword "wat" in definition',
+        'Type "integer" must come first in a definition',
+        'Option "min" is given more than once'
+      ]);
+    });
+
+    it('should report text after a quoted value', () => {
+      expect(parseSchemaDefinition('string, example:"a" b')?.problems).toEqual([
+        { message: 'Unexpected text after quoted value: b', suggestion: 'Quote the whole value' }
+      ]);
+    });
+  });
+
+  describe('quoteDefinitionValue', () => {
+    it('should quote values containing separators', () => {
+      expect(quoteDefinitionValue('plain')).toBe('plain');
+      expect(quoteDefinitionValue('a:b')).toBe('a:b');
+      expect(quoteDefinitionValue('Hello, "you"')).toBe('"Hello, \\"you\\""');
+      expect(quoteDefinitionValue('a|b')).toBe('a|b');
+      expect(quoteDefinitionValue('a|b', ',|')).toBe('"a|b"');
+    });
+
+    it('should round-trip through the parser', () => {
+      const values = ['Hello, world', 'a|b', "it's", '"quoted"', 'x:y'];
+      const definition = parseSchemaDefinition(`string, enum:${values.map(value => quoteDefinitionValue(value, ',|')).join('|')}`);
+
+      expect(definition?.enumValues).toEqual(values);
+    });
+  });
+});
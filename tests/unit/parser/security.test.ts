@@ -388,5 +388,90 @@ describe('Security Schemes - Parser', () => {
 
       expect(ast.interactions[0].security).toEqual(['oauth2:read,write']);
     });
+
+    it('should collect security scheme declarations from any note', () => {
+      const tokens: MermaidToken[] = [
+        {
+          type: 'note',
+          line: 1,
+          participants: ['Auth'],
+          content: 'SecurityScheme oauth2 authorizationCode authUrl=https://a tokenUrl=https://t scopes=read:Read\nSecurityScheme partnerKey apiKey name=X-Partner-Key',
+          noteType: 'info'
+        },
+        {
+          type: 'note',
+          line: 2,
+          participants: ['Auth'],
+          content: 'SecurityScheme partnerKey apiKey name=X-Other',
+          noteType: 'info'
+        }
+      ];
+
+      const ast = parse(tokens);
+
+      expect(ast.securitySchemes).toEqual({
+        oauth2: { type: 'oauth2', flows: { authorizationCode: { authorizationUrl: 'https://a', tokenUrl: 'https://t', scopes: { read: 'Read' } } } },
+        partnerKey: { type: 'apiKey', name: 'X-Partner-Key', in: 'header' }
+      });
+    });
+
+    it('should parse scopes of custom scheme names', () => {
+      const tokens: MermaidToken[] = [
+        {
+          type: 'request',
+          line: 1,
+          source: 'User',
+          target: 'API',
+          method: 'GET',
+          path: '/users'
+        },
+        {
+          type: 'note',
+          line: 2,
+          participants: ['API'],
+          content: 'Security: partnerAuth [ read, write ]',
+          noteType: 'info'
+        }
+      ];
+
+      const ast = parse(tokens);
+
+      expect(ast.interactions[0].security).toEqual(['partnerAuth:read,write']);
+    });
+
+    it('should read names that start with a built-in scheme as custom schemes', () => {
+      const tokens: MermaidToken[] = [
+        { type: 'request', line: 1, source: 'User', target: 'API', method: 'GET', path: '/users' },
+        { type: 'note', line: 2, participants: ['API'], content: 'Security: apiKeyAuth\\nSecurity: oauth2Partner [read]\\nSecurity: openIdLogin', noteType: 'info' }
+      ];
+
+      const ast = parse(tokens);
+
+      expect(ast.interactions[0].security).toEqual(['apiKeyAuth', 'oauth2Partner:read', 'openIdLogin']);
+    });
+
+    it('should parse combined and optional security requirements', () => {
+      const tokens: MermaidToken[] = [
+        {
+          type: 'request',
+          line: 1,
+          source: 'User',
+          target: 'API',
+          method: 'GET',
+          path: '/users'
+        },
+        {
+          type: 'note',
+          line: 2,
+          participants: ['API'],
+          content: 'Security: bearerAuth + apiKey in query\nSecurity: oauth2 [read]+partnerKey\nSecurity: None',
+          noteType: 'info'
+        }
+      ];
+
+      const ast = parse(tokens);
+
+      expect(ast.interactions[0].security).toEqual(['bearerAuth+apiKey_query', 'oauth2:read+partnerKey', 'none']);
+    });
   });
 });
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseSecuritySchemeDeclaration } from '@/parser/securityScheme';
+
+describe('securityScheme', () => {
+  describe('parseSecuritySchemeDeclaration', () => {
+    it('should read an OAuth2 flow with its URLs and scopes', () => {
+      expect(parseSecuritySchemeDeclaration(
+        'oauth2 authorizationCode authUrl=https://auth.io/authorize tokenUrl=https://auth.io/token scopes=read:Read,write:"Write access"'
+      )).toEqual({
+        name: 'oauth2',
+        scheme: {
+          type: 'oauth2',
+          flows: {
+            authorizationCode: {
+              authorizationUrl: 'https://auth.io/authorize',
+              tokenUrl: 'https://auth.io/token',
+              scopes: { read: 'Read', write: 'Write access' }
+            }
+          }
+        },
+        problems: []
+      });
+    });
+
+    it('should name schemes after their type unless a name is given', () => {
+      expect(parseSecuritySchemeDeclaration('apiKey in=query name=api_key').name).toBe('apiKey_query');
+      expect(parseSecuritySchemeDeclaration('http basic').name).toBe('basicAuth');
+      expect(parseSecuritySchemeDeclaration('openIdConnect url=https://auth.io/.well-known/openid-configuration').name).toBe('openIdConnect');
+
+      const declaration = parseSecuritySchemeDeclaration('partnerKey apiKey name=X-Partner-Key description="Partner key"');
+      expect(declaration.name).toBe('partnerKey');
+      expect(declaration.scheme).toEqual({ type: 'apiKey', name: 'X-Partner-Key', in: 'header', description: 'Partner key' });
+    });
+
+    it('should read the HTTP scheme and bearer format', () => {
+      expect(parseSecuritySchemeDeclaration('HTTP Bearer bearerFormat=opaque')).toEqual({
+        name: 'bearerAuth',
+        scheme: { type: 'http', scheme: 'bearer', bearerFormat: 'opaque' },
+        problems: []
+      });
+    });
+
+    it('should give scopes without a description a default one', () => {
+      expect(parseSecuritySchemeDeclaration('oauth2 clientCredentials tokenUrl=https://t scopes=read,admin:Admin').scheme?.flows).toEqual({
+        clientCredentials: { tokenUrl: 'https://t', scopes: { read: 'read permission', admin: 'Admin' } }
+      });
+    });
+
+    it('should report malformed declarations and keep reading', () => {
+      const declaration = parseSecuritySchemeDeclaration('oauth2 authorizationCode tokenUrl=https://t tokenUrl=https://u scope=read extra');
+
+      expect(declaration.scheme?.flows?.authorizationCode?.tokenUrl).toBe('https://t');
+      expect(declaration.problems.map(problem => problem.message)).toEqual([
+        'Option "tokenUrl" is given more than once',
+        'Unknown option "scope" for oauth2 security scheme',
+        'OAuth2 authorizationCode flow requires authUrl=',
+        'Unexpected "extra" in oauth2 security scheme'
+      ]);
+    });
+
+    it('should report missing and unknown types', () => {
+      expect(parseSecuritySchemeDeclaration('')).toEqual({
+        name: '',
+        problems: [{ message: 'Security scheme is missing its type', suggestion: 'Use one of: apiKey, http, oauth2, openIdConnect' }]
+      });
+      expect(parseSecuritySchemeDeclaration('partner saml').problems[0].message).toBe('Unknown security scheme type "saml"');
+      expect(parseSecuritySchemeDeclaration('apiKey in=cookie').problems[0].message).toBe('API key location must be "header" or "query", got "cookie"');
+      expect(parseSecuritySchemeDeclaration('oauth2 magic').problems[0].message).toBe('Unknown OAuth2 flow "magic"');
+      expect(parseSecuritySchemeDeclaration('openIdConnect description="open').problems.map(problem => problem.message)).toEqual([
+        'Unterminated quote in security scheme: openIdConnect description="open',
+        'OpenID Connect security scheme requires url='
+      ]);
+    });
+  });
+});
@@ -13,7 +13,7 @@ describe('Mermaid Types', () => {
     });
 
     it('should accept all token types', () => {
-      const types: MermaidToken['type'][] = ['participant', 'request', 'response', 'note'];
+      const types: MermaidToken['type'][] = ['participant', 'request', 'response', 'note', 'block'];
       types.forEach(type => {
         const token: MermaidToken = { type, line: 1 };
         expect(token.type).toBe(type);
@@ -305,6 +305,421 @@ Note over User,Unknown: This is a note
       });
     });
 
+    describe('response payloads', () => {
+      it('should detect invalid inline JSON on a response', () => {
+        const input = `
+participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 { "items": [], }
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.message.includes('Invalid JSON in response body') && e.line === 5)).toBe(true);
+      });
+
+      it('should report invalid single-line bodies with escaped separators on the note line', () => {
+        const input = `participant User
+participant API
+User->>API: POST /users
+Note over API: Body: {\\n"name": "John",\\nage: 30\\n}
+API-->>User: 201 Created`;
+        const result = validateMermaidSyntax(input);
+        expect(result.errors.map((e) => e.line)).toEqual([4]);
+      });
+
+      it('should not read prose mentioning Body: as a body note', () => {
+        const input = `participant User
+participant API
+User->>API: POST /users
+Note over API: see Body: described above
+API-->>User: 201 Created`;
+        const result = validateMermaidSyntax(input);
+        expect(result.errors).toEqual([]);
+      });
+
+      it('should accept bracketed prose in a response description', () => {
+        const input = `
+participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 Returns a list [paginated]
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.errors).toEqual([]);
+      });
+
+      it('should accept valid inline JSON on a response', () => {
+        const input = `
+participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 { "items": [] }
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(true);
+      });
+    });
+
+    describe('diagram header', () => {
+      it('should accept the sequenceDiagram and autonumber lines', () => {
+        const input = `sequenceDiagram
+autonumber
+participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 OK
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+      });
+    });
+
+    describe('blocks', () => {
+      it('should accept balanced alt/else blocks', () => {
+        const input = `
+participant User
+participant API
+User->>API: GET /users/{id}
+alt found
+  API-->>User: 200 OK
+else missing
+  API-->>User: 404 Not Found
+end
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(true);
+        expect(result.warnings.some((w) => w.message.includes('known Mermaid pattern'))).toBe(false);
+      });
+
+      it('should detect unclosed blocks', () => {
+        const input = `
+participant User
+participant API
+loop every minute
+User->>API: GET /status
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.message.includes('Unclosed "loop"') && e.line === 4)).toBe(true);
+      });
+
+      it('should detect stray end and misplaced branches', () => {
+        const input = `
+participant User
+participant API
+opt maybe
+else never
+end
+end
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.errors.some((e) => e.message.includes('"else" outside') && e.line === 5)).toBe(true);
+        expect(result.errors.some((e) => e.message.includes('"end" without') && e.line === 7)).toBe(true);
+      });
+    });
+
+    describe('participant aliases', () => {
+      it('should accept actors and aliased participants', () => {
+        const input = `
+actor User
+participant OS as Order Service
+User->>OS: GET /orders
+OS-->>User: 200 OK
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+      });
+    });
+
+    describe('multi-line bodies', () => {
+      it('should accept a body spanning several lines', () => {
+        const input = `
+participant User
+participant API
+User->>API: POST /users
+Note over API: Body: {
+  "name": "John",
+  "age": 30
+}
+API-->>User: 201 Created
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+      });
+
+      it('should report the exact line of invalid JSON inside the body', () => {
+        const input = `
+participant User
+participant API
+User->>API: POST /users
+Note over API: Body: {
+  "name": "John",
+  age: 30
+}
+API-->>User: 201 Created
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(false);
+        expect(result.errors.find((e) => e.message.includes('Invalid JSON'))?.line).toBe(7);
+      });
+
+      it('should report the exact line of an unexpected value inside the body', () => {
+        const input = `
+participant User
+participant API
+User->>API: POST /users
+Note over API: Body: {
+  "a": 1,
+  "b": x,
+  "c": 2
+}
+API-->>User: 201 Created
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.errors.find((e) => e.message.includes('Invalid JSON'))?.line).toBe(7);
+      });
+    });
+
+    describe('request and response bodies', () => {
+      it('should detect invalid JSON in Response-Body notes', () => {
+        const input = `
+participant User
+participant API
+User->>API: POST /users
+Note over API: Request-Body: {"name": "John"}\\nResponse-Body: {id: 1}
+API-->>User: 201 Created
+`;
+        const result = validateMermaidSyntax(input);
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.message.includes('Invalid JSON in Response-Body note'))).toBe(true);
+      });
+    });
+
+    describe('duplicate operations', () => {
+      it('should warn with both line numbers when duplicates disagree', () => {
+        const input = `participant User
+participant API
+User->>API: GET /users/{id}
+Note over User,API: Summary: Get user
+API-->>User: 200 OK {"id": 1}
+User->>API: GET /users/{id}
+Note over User,API: Summary: Fetch user
+API-->>User: 200 OK {"name": "Ada"}`;
+        const result = validateMermaidSyntax(input);
+        const warning = result.warnings.find((w) => w.message.startsWith('Duplicate operation'));
+
+        expect(result.valid).toBe(true);
+        expect(warning?.message).toBe(
+          'Duplicate operation GET /users/{id} at lines 3 and 6 disagrees on: summary ("Get user" vs "Fetch user"), response 200 body'
+        );
+        expect(warning?.line).toBe(6);
+        expect(warning?.context).toBe('API');
+      });
+
+      it('should not warn about compatible duplicates', () => {
+        const input = `participant User
+participant API
+User->>API: GET /users/{id}
+API-->>User: 200 OK {"id": 1}
+User->>API: GET /users/{id}
+API-->>User: 404 Not Found`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.warnings.some((w) => w.message.startsWith('Duplicate operation'))).toBe(false);
+      });
+    });
+
+    describe('named bodies', () => {
+      it('should accept references to schemas defined anywhere in the diagram', () => {
+        const input = `participant User
+participant API
+User->>API: GET /users/{id}
+Note over API: Response-Body<User>:
+API-->>User: 200 OK
+User->>API: POST /users
+Note over API: Body<User>: {"id": 1, "name": "Ada"}
+API-->>User: 201 Created`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.valid).toBe(true);
+        expect(result.errors).toEqual([]);
+      });
+
+      it('should report unknown and invalid schema names', () => {
+        const input = `participant User
+participant API
+User->>API: GET /users
+Note over API: Response-Body<Users>:
+API-->>User: 200 OK
+User->>API: POST /users
+Note over API: Body<new user>: {"id": 1}
+API-->>User: 201 Created`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => [e.line, e.message])).toEqual([
+          [7, 'Invalid schema name: "new user"'],
+          [4, 'Unknown schema name: "Users"'],
+        ]);
+      });
+
+      it('should warn when a name is defined again with a different shape', () => {
+        const input = `participant User
+participant API
+User->>API: POST /users
+Note over API: Body<User>: {"id": 1}
+API-->>User: 201 Created
+User->>API: PUT /users/{id}
+Note over API: Body<User>: {"id": 2}
+API-->>User: 200 OK
+User->>API: PATCH /users/{id}
+Note over API: Body<User>: {"name": "Ada"}
+API-->>User: 200 OK`;
+        const result = validateMermaidSyntax(input);
+        const warnings = result.warnings.filter((w) => w.message.startsWith('Schema "User"'));
+
+        expect(result.valid).toBe(true);
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0].line).toBe(10);
+        expect(warnings[0].suggestion).toContain('the definition at line 4 is used');
+      });
+
+      it('should accept references to diagram-level schema definitions', () => {
+        const input = `%% @schema User {
+%%   "id": 1
+%% }
+participant User
+participant API
+User->>API: GET /users/{id}
+Note over API: Response-Body<User>:
+API-->>User: 200 OK`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.valid).toBe(true);
+        expect(result.warnings).toEqual([]);
+      });
+
+      it('should report invalid, repeated and unused schema definitions', () => {
+        const input = `%% @schema User {"id": 1,}
+%% @schema Error {"message": "string"}
+%% @schema Error {"code": 1}
+%% @schema 1st {}
+participant User
+participant API
+User->>API: GET /users
+API-->>User: 200 OK`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.errors.map((e) => [e.line, e.message.split(':')[0]])).toEqual([
+          [1, 'Invalid JSON in schema definition "User"'],
+          [4, 'Invalid schema name'],
+        ]);
+        expect(result.warnings.map((w) => [w.line, w.message])).toEqual([
+          [3, 'Schema "Error" is defined again with a different shape'],
+          [2, 'Schema "Error" is defined but never used'],
+          [4, 'Schema "1st" is defined but never used'],
+        ]);
+      });
+    });
+
+    describe('definition strings', () => {
+      it('should accept quoted and escaped values', () => {
+        const input = `participant User
+participant API
+User->>API: GET /users
+Note over API: Query: sort string, enum:"name, asc"|date, default:date
+API-->>User: 200 OK {"greeting": "string, example:'Hello, world'", "time": "12:30"}`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.errors).toEqual([]);
+      });
+
+      it('should report malformed definitions with their lines', () => {
+        const input = `participant User
+participant API
+User->>API: POST /users
+Note over API: Query: limit integer, mn:1
+Note over API: Body: {
+  "name": "string, required, max:ten",
+  "role": "string, example:'admin"
+}
+API-->>User: 201 Created {"id": "required, integer"}`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => [e.line, e.message])).toEqual([
+          [4, 'Unknown option "mn" in definition'],
+          [6, 'Option "max" expects a number, got "ten"'],
+          [7, "Unterminated quote in definition: 'admin"],
+          [9, 'Type "integer" must come first in a definition'],
+        ]);
+        expect(result.errors[0].context).toBe('integer, mn:1');
+      });
+    });
+
+    describe('security schemes', () => {
+      it('should accept declared schemes without reporting the declaration note', () => {
+        const input = `participant User
+participant Auth
+participant API
+Note over Auth: SecurityScheme oauth2 authorizationCode authUrl=https://a tokenUrl=https://t scopes=read:Read
+User->>API: GET /users
+Note over API: Security: oauth2 [read] + bearerAuth
+Note over API: Security: none
+API-->>User: 200 OK`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([]);
+      });
+
+      it('should accept declarations over participants that are not declared', () => {
+        const input = `participant User
+participant API
+Note over Auth: SecurityScheme oauth2 clientCredentials tokenUrl=https://t scopes=read
+User->>API: GET /users
+Note over API: Security: oauth2 [read]
+API-->>User: 200 OK`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.valid).toBe(true);
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([]);
+
+        const mixed = validateMermaidSyntax(`${input}\nNote over Auth: SecurityScheme http basic\\nSummary: Sign in`);
+        expect(mixed.errors.map((e) => [e.line, e.message])).toContainEqual(
+          [7, 'Note references undefined participant: "Auth"']
+        );
+      });
+
+      it('should report malformed, repeated, unused and unknown schemes', () => {
+        const input = `participant User
+participant API
+Note over API: SecurityScheme partnerKey apiKey in=cookie
+Note over API: SecurityScheme partnerKey apiKey\\nSecurityScheme oauth2 magic
+User->>API: GET /users
+Note over API: Security: partner
+API-->>User: 200 OK`;
+        const result = validateMermaidSyntax(input);
+
+        expect(result.errors.map((e) => [e.line, e.message])).toEqual([
+          [3, 'API key location must be "header" or "query", got "cookie"'],
+          [4, 'Unknown OAuth2 flow "magic"'],
+          [4, 'OAuth2 implicit flow requires authUrl='],
+        ]);
+        expect(result.warnings.map((w) => [w.line, w.message])).toEqual([
+          [4, 'Security scheme "partnerKey" is declared more than once'],
+          [5, 'Unknown security scheme: "partner"'],
+          [3, 'Security scheme "partnerKey" is declared but never used'],
+          [4, 'Security scheme "oauth2" is declared but never used'],
+        ]);
+      });
+    });
+
     describe('orphaned responses', () => {
       it('should detect response without matching request', () => {
         const input = `
@@ -1063,6 +1063,44 @@ describe('openapiValidator', () => {
         expect(result.warnings.some((w) => w.message.includes('Path parameter') && w.message.includes('required'))).toBe(true);
       });
 
+      it('should warn about path parameter missing from the path template', () => {
+        const spec: OpenApiDoc = {
+          openapi: '3.0.0',
+          info: {
+            title: 'API',
+            version: '1.0.0',
+          },
+          paths: {
+            '/users': {
+              get: {
+                summary: 'List users',
+                parameters: [
+                  {
+                    name: 'id',
+                    in: 'path',
+                    required: true,
+                    schema: { type: 'string' },
+                  },
+                ],
+                responses: {
+                  '200': {
+                    description: 'OK',
+                    content: {
+                      'application/json': {
+                        schema: { type: 'object' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        };
+
+        const result = validateOpenApiSpec(spec);
+        expect(result.warnings.some((w) => w.message.includes('does not appear in the path template'))).toBe(true);
+      });
+
       it('should detect invalid parameter location', () => {
         const spec: OpenApiDoc = {
           openapi: '3.0.0',
@@ -1102,6 +1140,181 @@ describe('openapiValidator', () => {
       });
     });
 
+    describe('version-specific rules', () => {
+      const specWithSchema = (openapi: string, schema: Record<string, unknown>): OpenApiDoc => ({
+        openapi,
+        info: { title: 'API', version: '1.0.0' },
+        paths: {
+          '/users': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: { 'application/json': { schema } },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      it('should accept type arrays and examples in OpenAPI 3.1', () => {
+        const result = validateOpenApiSpec(specWithSchema('3.1.0', { type: ['string', 'null'], examples: ['John'] }));
+        expect(result.valid).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+      });
+
+      it('should reject type arrays and examples in OpenAPI 3.0', () => {
+        const result = validateOpenApiSpec(specWithSchema('3.0.0', { type: ['string', 'null'], examples: ['John'] }));
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.message === 'Type arrays require OpenAPI 3.1')).toBe(true);
+        expect(result.errors.some((e) => e.message.includes('"examples"'))).toBe(true);
+      });
+
+      it('should reject nullable and warn about example in OpenAPI 3.1', () => {
+        const result = validateOpenApiSpec(specWithSchema('3.1.0', {
+          type: 'object',
+          properties: { name: { type: 'string', nullable: true, example: 'John' } },
+        }));
+        expect(result.valid).toBe(false);
+        expect(result.errors[0].message).toBe('"nullable" is not supported in OpenAPI 3.1');
+        expect(result.errors[0].context).toBe('/users (get) - 200.name');
+        expect(result.warnings.some((w) => w.message.includes('"example" is deprecated'))).toBe(true);
+      });
+
+      it('should accept nullable in OpenAPI 3.0', () => {
+        const result = validateOpenApiSpec(specWithSchema('3.0.3', { type: 'string', nullable: true }));
+        expect(result.valid).toBe(true);
+      });
+
+      it('should check nullable inside oneOf variants', () => {
+        const result = validateOpenApiSpec(specWithSchema('3.1.0', { oneOf: [{ type: 'integer' }, { type: 'string', nullable: true }] }));
+        expect(result.errors.map((e) => e.context)).toEqual(['/users (get) - 200.oneOf[1]']);
+      });
+
+      it('should reject webhooks in OpenAPI 3.0', () => {
+        const spec: OpenApiDoc = {
+          ...specWithSchema('3.0.0', { type: 'string' }),
+          webhooks: {},
+        };
+        const result = validateOpenApiSpec(spec);
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.message === '"webhooks" requires OpenAPI 3.1')).toBe(true);
+      });
+
+      it('should allow a 3.1 spec with only webhooks and validate their operations', () => {
+        const spec = {
+          openapi: '3.1.0',
+          info: { title: 'API', version: '1.0.0' },
+          webhooks: {
+            '/order-events': {
+              post: { responses: { '200': { description: 'OK' } } },
+            },
+          },
+        } as unknown as OpenApiDoc;
+        const result = validateOpenApiSpec(spec);
+        expect(result.errors.some((e) => e.message.includes('Missing required field'))).toBe(false);
+        expect(result.errors.some((e) => e.message === 'Response missing "content" field' && e.context === '/order-events (post) - 200')).toBe(true);
+      });
+
+      it('should reject unsupported 3.x versions', () => {
+        const result = validateOpenApiSpec(specWithSchema('3.2.0', { type: 'string' }));
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.message === 'Unsupported OpenAPI version: "3.2.0"')).toBe(true);
+      });
+    });
+
+    describe('schema compositions', () => {
+      const specWithSchema = (schema: Record<string, unknown>): OpenApiDoc => ({
+        openapi: '3.0.3',
+        info: { title: 'API', version: '1.0.0' },
+        paths: {},
+        components: { schemas: { Pet: schema } },
+      } as OpenApiDoc);
+
+      it('should accept oneOf with a discriminator', () => {
+        const result = validateOpenApiSpec(specWithSchema({
+          oneOf: [{ type: 'object' }, { type: 'object' }],
+          discriminator: { propertyName: 'kind', mapping: { cat: '#/components/schemas/Cat' } },
+        }));
+        expect(result.errors.filter((e) => e.context === '#/components/schemas/Pet')).toEqual([]);
+      });
+
+      it('should reject empty compositions', () => {
+        const result = validateOpenApiSpec(specWithSchema({ anyOf: [], allOf: [{ type: 'object' }] }));
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => e.message)).toEqual(['"anyOf" must be a non-empty array of schemas']);
+      });
+
+      it('should reject discriminators without a composition or property name', () => {
+        const result = validateOpenApiSpec(specWithSchema({ type: 'object', discriminator: {} }));
+        expect(result.errors.map((e) => e.message)).toEqual([
+          '"discriminator" requires "oneOf", "anyOf" or "allOf"',
+          'Discriminator is missing "propertyName"',
+        ]);
+        expect(result.errors[0].context).toBe('#/components/schemas/Pet');
+      });
+    });
+
+    describe('schema constraints', () => {
+      const specWithSchema = (schema: Record<string, unknown>): OpenApiDoc => ({
+        openapi: '3.0.3',
+        info: { title: 'API', version: '1.0.0' },
+        paths: {},
+        components: { schemas: { Status: schema } },
+      } as OpenApiDoc);
+
+      it('should accept consistent constraints', () => {
+        const result = validateOpenApiSpec(specWithSchema({
+          type: 'string',
+          enum: ['active', 'banned'],
+          default: 'active',
+          example: 'banned',
+          pattern: '^[a-z]+$',
+          minLength: 1,
+          maxLength: 10,
+        }));
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([]);
+      });
+
+      it('should reject a default outside the enum and warn about such examples', () => {
+        const result = validateOpenApiSpec(specWithSchema({ type: 'string', enum: ['active', 'banned'], default: 'unknown', example: 'gone' }));
+        expect(result.errors.map((e) => e.message)).toEqual(['Default value "unknown" is not one of the enum values']);
+        expect(result.errors[0].suggestion).toBe('Use one of: "active", "banned"');
+        expect(result.errors[0].context).toBe('#/components/schemas/Status');
+        expect(result.warnings.map((w) => w.message)).toEqual(['Example "gone" is not one of the enum values']);
+      });
+
+      it('should warn about enum and default values of another type', () => {
+        const result = validateOpenApiSpec(specWithSchema({ type: 'integer', enum: [1, 'two'] }));
+        expect(result.warnings.map((w) => w.message)).toEqual(['Enum value "two" does not match the schema type']);
+
+        const defaultResult = validateOpenApiSpec(specWithSchema({ type: 'integer', default: 1.5 }));
+        expect(defaultResult.warnings.map((w) => w.message)).toEqual(['Default value 1.5 does not match the schema type']);
+      });
+
+      it('should reject empty enums, inverted ranges, bad patterns and multipleOf', () => {
+        const result = validateOpenApiSpec(specWithSchema({
+          type: 'array',
+          enum: [],
+          minItems: 5,
+          maxItems: 2,
+          pattern: '[a-',
+          multipleOf: 0,
+          readOnly: true,
+          writeOnly: true,
+        }));
+        expect(result.errors.map((e) => e.message)).toEqual([
+          '"enum" must be a non-empty array',
+          '"minItems" (5) is greater than "maxItems" (2)',
+          '"multipleOf" must be a number greater than 0',
+          'Invalid regular expression in "pattern": [a-',
+          'A schema cannot be both "readOnly" and "writeOnly"',
+        ]);
+      });
+    });
+
     describe('validation result structure', () => {
       it('should return ValidationResult with correct structure', () => {
         const spec: OpenApiDoc = {
@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Bundles the Node CLI (src/cli) into a single executable ES module
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'mermaid-to-openapi.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})